@@ -56,7 +56,7 @@ async function main() {
       url: 'https://example.com',
       screenshot_wait_for: 2, // Wait 2 seconds before capture
     });
-    console.log('Screenshot captured, base64 length:', screenshot.length);
+    console.log('Screenshot captured, bytes:', screenshot.data.byteLength);
 
     // Get health status
     console.log('\n4. Health check:');
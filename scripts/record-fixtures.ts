@@ -0,0 +1,45 @@
+/**
+ * Record the fixtures behind the offline SDK tests from a running Crawl4AI server
+ *
+ * Usage: CRAWL4AI_URL=http://localhost:11235 [CRAWL4AI_API_TOKEN=...] bun run fixtures:record
+ */
+
+import { join } from 'node:path';
+import { FixtureRecorder } from '../src/fixtures';
+import Crawl4AI from '../src/sdk';
+import { FIXTURES_DIR, RECORDED_CALLS } from '../src/test-utils';
+
+type Call = (client: Crawl4AI) => Promise<unknown>;
+
+async function record(file: string, calls: Call[]) {
+	const recorder = new FixtureRecorder();
+	const client = new Crawl4AI({
+		baseUrl: process.env.CRAWL4AI_URL ?? 'http://localhost:11235',
+		...(process.env.CRAWL4AI_API_TOKEN && { apiToken: process.env.CRAWL4AI_API_TOKEN }),
+		timeout: 120_000,
+		retries: 0,
+		transport: recorder.transport,
+	});
+
+	// One call at a time, so fixtures are stored in a stable order
+	for (const call of calls) {
+		await call(client);
+	}
+	await recorder.save(join(FIXTURES_DIR, file));
+	console.log(`Recorded ${recorder.recorded.length} fixtures to fixtures/${file}`);
+}
+
+const { crawl, markdown, executeJs } = RECORDED_CALLS;
+
+await record(
+	'crawl.json',
+	Object.values(crawl).map((request): Call => (client) => client.crawl(request)),
+);
+await record(
+	'markdown.json',
+	Object.values(markdown).map((request): Call => (client) => client.markdown(request)),
+);
+await record(
+	'execute-js.json',
+	Object.values(executeJs).map((request): Call => (client) => client.executeJs(request)),
+);
@@ -0,0 +1,218 @@
+import { describe, expect, test } from 'bun:test';
+import { crawlMany } from './batch';
+import {
+	AbortedError,
+	AuthError,
+	NetworkError,
+	ParseError,
+	RequestValidationError,
+	ServerValidationError,
+} from './errors';
+import type { CrawlManyProgress, CrawlRequest, CrawlResult } from './types';
+
+const result = (url: string, success = true): CrawlResult => ({ url, html: '', success });
+
+const validateUrl = (url: string) => {
+	try {
+		new URL(url);
+	} catch {
+		throw new RequestValidationError(`Invalid URL: ${url}`, 'url', url);
+	}
+};
+
+const urls = (count: number) => Array.from({ length: count }, (_, i) => `https://example.com/${i}`);
+
+describe('crawlMany', () => {
+	test('should chunk URLs and respect the concurrency limit', async () => {
+		const chunks: string[][] = [];
+		let active = 0;
+		let peak = 0;
+		const progress: CrawlManyProgress[] = [];
+
+		const report = await crawlMany(
+			async (request: CrawlRequest) => {
+				const chunk = request.urls as string[];
+				chunks.push(chunk);
+				active++;
+				peak = Math.max(peak, active);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				active--;
+				return chunk.map((url) => result(url));
+			},
+			validateUrl,
+			urls(7),
+			{ chunkSize: 3, concurrency: 2, onProgress: (update) => progress.push(update) },
+		);
+
+		expect(chunks.map((chunk) => chunk.length)).toEqual([3, 3, 1]);
+		expect(peak).toBe(2);
+		expect(Object.keys(report.succeeded)).toHaveLength(7);
+		expect(progress.at(-1)).toEqual({
+			total: 7,
+			completed: 7,
+			succeeded: 7,
+			failed: 0,
+			errored: 0,
+		});
+	});
+
+	test('should retry failed chunks and then split them into single URLs', async () => {
+		const calls: string[][] = [];
+		const report = await crawlMany(
+			async (request: CrawlRequest) => {
+				const chunk = request.urls as string[];
+				calls.push(chunk);
+				if (chunk.length > 1 || chunk[0] === 'https://example.com/1') {
+					throw new NetworkError('connection reset');
+				}
+				return [result(chunk[0] as string)];
+			},
+			validateUrl,
+			urls(3),
+			{ chunkSize: 3, chunkRetries: 1 },
+		);
+
+		// Two chunk attempts, then each URL twice at most
+		expect(calls.slice(0, 2).map((chunk) => chunk.length)).toEqual([3, 3]);
+		expect(Object.keys(report.succeeded).sort()).toEqual([
+			'https://example.com/0',
+			'https://example.com/2',
+		]);
+		expect(report.errors['https://example.com/1']).toBeInstanceOf(NetworkError);
+	});
+
+	test('should separate success: false results and invalid URLs', async () => {
+		let attempts = 0;
+		const report = await crawlMany(
+			async (request: CrawlRequest) => {
+				attempts++;
+				return (request.urls as string[]).map((url) => result(url, attempts > 1));
+			},
+			validateUrl,
+			['https://example.com/a', 'https://example.com/a', 'not a url'],
+			{ retryFailedUrls: 0 },
+		);
+
+		expect(Object.keys(report.failed)).toEqual(['https://example.com/a']);
+		expect(report.errors['not a url']).toBeInstanceOf(RequestValidationError);
+		expect(attempts).toBe(1);
+	});
+
+	test('should re-crawl success: false URLs when asked', async () => {
+		let attempts = 0;
+		const report = await crawlMany(
+			async (request: CrawlRequest) => {
+				attempts++;
+				return (request.urls as string[]).map((url) => result(url, attempts > 1));
+			},
+			validateUrl,
+			['https://example.com/a'],
+			{ retryFailedUrls: 2 },
+		);
+
+		expect(Object.keys(report.succeeded)).toEqual(['https://example.com/a']);
+		expect(attempts).toBe(2);
+	});
+
+	test('should match results reported under a different URL by position', async () => {
+		const report = await crawlMany(
+			async () => [result('https://example.com/redirected')],
+			validateUrl,
+			['https://example.com/original'],
+		);
+
+		expect(report.succeeded['https://example.com/original']?.url).toBe(
+			'https://example.com/redirected',
+		);
+	});
+
+	test('should report URLs without a result when only some results match', async () => {
+		const report = await crawlMany(
+			async () => [result('https://example.com/a'), result('https://example.com/redirected')],
+			validateUrl,
+			['https://example.com/a', 'https://example.com/b', 'https://example.com/c'],
+		);
+
+		expect(Object.keys(report.succeeded)).toEqual(['https://example.com/a']);
+		expect(report.errors['https://example.com/b']).toBeInstanceOf(ParseError);
+		expect(report.errors['https://example.com/c']).toBeInstanceOf(ParseError);
+	});
+
+	test('should not pair results by position when the counts differ', async () => {
+		const report = await crawlMany(
+			async () => [result('https://example.com/redirected')],
+			validateUrl,
+			['https://example.com/a', 'https://example.com/b'],
+		);
+
+		expect(report.succeeded).toEqual({});
+		expect(Object.keys(report.errors)).toEqual([
+			'https://example.com/a',
+			'https://example.com/b',
+		]);
+	});
+
+	test('should report progress when every URL is invalid', async () => {
+		const updates: CrawlManyProgress[] = [];
+		const report = await crawlMany(
+			async () => [],
+			validateUrl,
+			['not a url', 'also not a url'],
+			{ onProgress: (progress) => updates.push(progress) },
+		);
+
+		expect(Object.keys(report.errors)).toHaveLength(2);
+		expect(updates).toEqual([{ total: 2, completed: 2, succeeded: 0, failed: 0, errored: 2 }]);
+	});
+
+	test('should fail each chunk with one request on an auth error', async () => {
+		let calls = 0;
+		const report = await crawlMany(
+			async () => {
+				calls++;
+				throw new AuthError('Invalid token');
+			},
+			validateUrl,
+			urls(25),
+		);
+
+		expect(calls).toBe(3);
+		expect(Object.keys(report.errors)).toHaveLength(25);
+		expect(Object.values(report.errors).every((error) => error instanceof AuthError)).toBe(
+			true,
+		);
+	});
+
+	test('should split a chunk the server rejected as invalid without retrying it', async () => {
+		const calls: string[][] = [];
+		const report = await crawlMany(
+			async (request: CrawlRequest) => {
+				const chunk = request.urls as string[];
+				calls.push(chunk);
+				if (chunk.includes('https://example.com/1')) {
+					throw new ServerValidationError([{ path: 'urls', message: 'Invalid URL' }]);
+				}
+				return chunk.map((url) => result(url));
+			},
+			validateUrl,
+			urls(3),
+			{ chunkSize: 3 },
+		);
+
+		expect(calls.map((chunk) => chunk.length)).toEqual([3, 1, 1, 1]);
+		expect(Object.keys(report.succeeded)).toHaveLength(2);
+		expect(report.errors['https://example.com/1']).toBeInstanceOf(ServerValidationError);
+	});
+
+	test('should stop on cancellation', async () => {
+		await expect(
+			crawlMany(
+				async () => {
+					throw new AbortedError();
+				},
+				validateUrl,
+				urls(2),
+			),
+		).rejects.toThrow(AbortedError);
+	});
+});
@@ -0,0 +1,221 @@
+/**
+ * Client-side batching for large crawls: chunking, bounded concurrency and partial failure reports
+ */
+
+import {
+	AbortedError,
+	CircuitOpenError,
+	DeadlineExceededError,
+	ParseError,
+	RequestValidationError,
+} from './errors';
+import { isRetryableError } from './retry';
+import type {
+	CrawlManyOptions,
+	CrawlManyProgress,
+	CrawlManyReport,
+	CrawlRequest,
+	CrawlResult,
+	RequestConfig,
+} from './types';
+
+const DEFAULT_CHUNK_SIZE = 10;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_CHUNK_RETRIES = 1;
+
+type CrawlFn = (request: CrawlRequest, config?: RequestConfig) => Promise<CrawlResult[]>;
+
+/**
+ * Pair each requested URL with its result by exact URL. When nothing matches
+ * and the counts agree, pair by position instead (servers may report redirected
+ * or normalized URLs); otherwise unmatched URLs get no result.
+ */
+function matchResults(urls: string[], results: CrawlResult[]): Map<string, CrawlResult> {
+	const matched = new Map<string, CrawlResult>();
+	const unclaimed = [...results];
+
+	for (const url of urls) {
+		const index = unclaimed.findIndex((result) => result.url === url);
+		if (index !== -1) {
+			matched.set(url, unclaimed.splice(index, 1)[0] as CrawlResult);
+		}
+	}
+
+	if (matched.size === 0 && results.length === urls.length) {
+		for (const [index, url] of urls.entries()) {
+			matched.set(url, results[index] as CrawlResult);
+		}
+	}
+
+	return matched;
+}
+
+/**
+ * Whether another attempt at a failed chunk could succeed. Auth errors, 4xx responses, an open
+ * circuit or a spent deadline would fail the same way for every attempt and every URL.
+ */
+function isTransient(error: Error, config?: RequestConfig): boolean {
+	if (error instanceof CircuitOpenError || error instanceof DeadlineExceededError) {
+		return false;
+	}
+	return isRetryableError(error, config?.retryPolicy ?? {});
+}
+
+function validateCount(field: string, value: number | undefined, minimum: number): void {
+	if (value !== undefined && (value < minimum || !Number.isInteger(value))) {
+		throw new RequestValidationError(
+			`${field} must be an integer of at least ${minimum}`,
+			field,
+			value,
+		);
+	}
+}
+
+/**
+ * Crawl many URLs in chunks and report every URL's outcome
+ *
+ * @internal Exposed as `client.crawlMany()`
+ */
+export async function crawlMany(
+	crawl: CrawlFn,
+	validateUrl: (url: string) => void,
+	urls: string[],
+	options: CrawlManyOptions = {},
+	config?: RequestConfig,
+): Promise<CrawlManyReport> {
+	const {
+		chunkSize = DEFAULT_CHUNK_SIZE,
+		concurrency = DEFAULT_CONCURRENCY,
+		chunkRetries = DEFAULT_CHUNK_RETRIES,
+		splitFailedChunks = true,
+		retryFailedUrls = 0,
+		onProgress,
+		...template
+	} = options;
+
+	validateCount('chunkSize', chunkSize, 1);
+	validateCount('concurrency', concurrency, 1);
+	validateCount('chunkRetries', chunkRetries, 0);
+	validateCount('retryFailedUrls', retryFailedUrls, 0);
+
+	const report: CrawlManyReport = { succeeded: {}, failed: {}, errors: {} };
+	const unique = [...new Set(urls)];
+	const progress: CrawlManyProgress = {
+		total: unique.length,
+		completed: 0,
+		succeeded: 0,
+		failed: 0,
+		errored: 0,
+	};
+
+	const settle = (url: string, outcome: CrawlResult | Error): void => {
+		if (outcome instanceof Error) {
+			report.errors[url] = outcome;
+			progress.errored++;
+		} else if (outcome.success) {
+			report.succeeded[url] = outcome;
+			progress.succeeded++;
+		} else {
+			report.failed[url] = outcome;
+			progress.failed++;
+		}
+		progress.completed++;
+	};
+
+	// Invalid URLs are reported rather than failing the whole batch
+	const valid: string[] = [];
+	for (const url of unique) {
+		try {
+			validateUrl(url);
+			valid.push(url);
+		} catch (error) {
+			settle(url, error as Error);
+		}
+	}
+	if (progress.completed > 0) {
+		onProgress?.({ ...progress });
+	}
+
+	const crawlChunk = async (chunk: string[]): Promise<Map<string, CrawlResult | Error>> => {
+		const outcomes = new Map<string, CrawlResult | Error>();
+		let lastError: Error = new Error('No attempts made');
+
+		for (let attempt = 0; attempt <= chunkRetries; attempt++) {
+			try {
+				const matched = matchResults(
+					chunk,
+					await crawl({ ...template, urls: chunk }, config),
+				);
+				for (const url of chunk) {
+					outcomes.set(
+						url,
+						matched.get(url) ?? new ParseError(`No result returned for ${url}`),
+					);
+				}
+				return outcomes;
+			} catch (error) {
+				if (error instanceof AbortedError) {
+					throw error;
+				}
+				lastError = error as Error;
+				if (!isTransient(lastError, config)) {
+					break;
+				}
+			}
+		}
+
+		// Splitting isolates a URL the server rejected; other lasting failures fail the whole chunk
+		const isolatable =
+			isTransient(lastError, config) || lastError instanceof RequestValidationError;
+		if (splitFailedChunks && chunk.length > 1 && isolatable) {
+			for (const url of chunk) {
+				const single = await crawlChunk([url]);
+				outcomes.set(url, single.get(url) ?? lastError);
+			}
+			return outcomes;
+		}
+
+		for (const url of chunk) {
+			outcomes.set(url, lastError);
+		}
+		return outcomes;
+	};
+
+	const runChunk = async (chunk: string[]): Promise<void> => {
+		const outcomes = await crawlChunk(chunk);
+
+		for (const [url, outcome] of outcomes) {
+			let final = outcome;
+			// A retry that errors keeps the earlier `success: false` result
+			for (let retry = 0; retry < retryFailedUrls; retry++) {
+				if (final instanceof Error || final.success) {
+					break;
+				}
+				const retried = (await crawlChunk([url])).get(url);
+				if (!retried || retried instanceof Error) {
+					break;
+				}
+				final = retried;
+			}
+			settle(url, final);
+		}
+
+		onProgress?.({ ...progress });
+	};
+
+	const chunks: string[][] = [];
+	for (let index = 0; index < valid.length; index += chunkSize) {
+		chunks.push(valid.slice(index, index + chunkSize));
+	}
+
+	let next = 0;
+	const worker = async (): Promise<void> => {
+		while (next < chunks.length) {
+			const chunk = chunks[next++] as string[];
+			await runChunk(chunk);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+	return report;
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { cacheReads, cacheWrites, FileCacheStore, isCacheable, MemoryCacheStore } from './cache';
+
+describe('Client cache', () => {
+	const directory = join(tmpdir(), `crawl4ai-cache-test-${process.pid}`);
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	test('should map cache modes to reads and writes', () => {
+		expect([cacheReads('enabled'), cacheWrites('enabled')]).toEqual([true, true]);
+		expect([cacheReads('read_only'), cacheWrites('read_only')]).toEqual([true, false]);
+		expect([cacheReads('write_only'), cacheWrites('write_only')]).toEqual([false, true]);
+		expect([cacheReads('bypass'), cacheWrites('bypass')]).toEqual([false, false]);
+		expect([cacheReads('disabled'), cacheWrites('disabled')]).toEqual([false, false]);
+	});
+
+	test('should not cache failed crawls', () => {
+		expect(isCacheable([{ success: true }])).toBe(true);
+		expect(isCacheable({ results: [{ success: true }, { success: false }] })).toBe(false);
+		expect(isCacheable({ success: false })).toBe(false);
+		expect(isCacheable('# Markdown')).toBe(true);
+	});
+
+	test('should evict the least recently used entry and copy values', async () => {
+		const store = new MemoryCacheStore(2);
+		await store.set('a', { value: { n: 1 } });
+		await store.set('b', { value: { n: 2 } });
+		await store.get('a');
+		await store.set('c', { value: { n: 3 } });
+
+		expect(await store.get('b')).toBeUndefined();
+		expect(store.size).toBe(2);
+
+		const entry = await store.get('a');
+		(entry?.value as { n: number }).n = 99;
+		expect((await store.get('a'))?.value).toEqual({ n: 1 });
+	});
+
+	test('should persist entries as files', async () => {
+		const store = new FileCacheStore(directory);
+		const expiresAt = Date.now() + 60_000;
+		await store.set('POST /md {"url":"a"}', { value: '# A', expiresAt });
+
+		expect(await new FileCacheStore(directory).get('POST /md {"url":"a"}')).toEqual({
+			value: '# A',
+			expiresAt,
+		});
+
+		await store.clear();
+		expect(await store.get('POST /md {"url":"a"}')).toBeUndefined();
+	});
+
+	test('should remove expired entries when they are read', async () => {
+		const memory = new MemoryCacheStore();
+		await memory.set('a', { value: '# A', expiresAt: Date.now() - 1 });
+		expect(await memory.get('a')).toBeUndefined();
+		expect(memory.size).toBe(0);
+
+		const files = new FileCacheStore(directory);
+		await files.set('a', { value: '# A', expiresAt: Date.now() - 1 });
+		expect(await readdir(directory)).toHaveLength(1);
+		expect(await files.get('a')).toBeUndefined();
+		expect(await readdir(directory)).toHaveLength(0);
+	});
+});
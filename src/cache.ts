@@ -0,0 +1,167 @@
+/**
+ * Client-side response cache: cache mode semantics and the built-in stores
+ */
+
+import type { CacheEntry, CacheMode, CacheStore } from './types';
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Whether a cache mode serves hits
+ */
+export function cacheReads(mode: CacheMode): boolean {
+	return mode === 'enabled' || mode === 'read_only';
+}
+
+/**
+ * Whether a cache mode stores fresh responses
+ */
+export function cacheWrites(mode: CacheMode): boolean {
+	return mode === 'enabled' || mode === 'write_only';
+}
+
+/**
+ * Whether an entry's time to live has run out
+ */
+export function isExpired(entry: CacheEntry, now: number = Date.now()): boolean {
+	return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+/**
+ * Failed crawls are not worth replaying from the cache
+ */
+export function isCacheable(value: unknown): boolean {
+	const failed = (item: unknown) =>
+		typeof item === 'object' &&
+		item !== null &&
+		(item as { success?: unknown }).success === false;
+
+	if (Array.isArray(value)) {
+		return !value.some(failed);
+	}
+	const results = (value as { results?: unknown } | null)?.results;
+	return !failed(value) && !(Array.isArray(results) && results.some(failed));
+}
+
+/**
+ * In-memory LRU store. Entries are copied on the way in and out, so callers
+ * cannot mutate cached results.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({
+ *   baseUrl: 'http://localhost:11235',
+ *   cache: { store: new MemoryCacheStore(1000), ttl: 60_000 }
+ * });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+	private readonly entries = new Map<string, CacheEntry>();
+
+	constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+	public async get(key: string): Promise<CacheEntry | undefined> {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return undefined;
+		}
+		if (isExpired(entry)) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		// Re-insert to mark as most recently used
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return structuredClone(entry);
+	}
+
+	public async set(key: string, entry: CacheEntry): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, structuredClone(entry));
+
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	public async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	public async clear(): Promise<void> {
+		this.entries.clear();
+	}
+
+	/**
+	 * Number of cached entries
+	 */
+	public get size(): number {
+		return this.entries.size;
+	}
+}
+
+/**
+ * Filesystem store (Node.js/Bun): one JSON file per entry in `directory`, named by
+ * the SHA-256 of its key. Useful for keeping fixtures between test runs.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({
+ *   baseUrl: 'http://localhost:11235',
+ *   cache: { store: new FileCacheStore('.crawl4ai-cache'), ttl: 0 }
+ * });
+ * ```
+ */
+export class FileCacheStore implements CacheStore {
+	constructor(private readonly directory: string) {}
+
+	public async get(key: string): Promise<CacheEntry | undefined> {
+		const { readFile, rm } = await import('node:fs/promises');
+		const path = await this.pathFor(key);
+		let entry: CacheEntry;
+		try {
+			entry = JSON.parse(await readFile(path, 'utf8')) as CacheEntry;
+		} catch {
+			// Missing or unreadable entries are misses
+			return undefined;
+		}
+		if (isExpired(entry)) {
+			await rm(path, { force: true });
+			return undefined;
+		}
+		return entry;
+	}
+
+	public async set(key: string, entry: CacheEntry): Promise<void> {
+		const { mkdir, rename, writeFile } = await import('node:fs/promises');
+		const path = await this.pathFor(key);
+		await mkdir(this.directory, { recursive: true });
+		// Write then rename so readers never see a partial file
+		const temporary = `${path}.${process.pid}.${Date.now()}.tmp`;
+		await writeFile(temporary, JSON.stringify(entry));
+		await rename(temporary, path);
+	}
+
+	public async delete(key: string): Promise<void> {
+		const { rm } = await import('node:fs/promises');
+		await rm(await this.pathFor(key), { force: true });
+	}
+
+	public async clear(): Promise<void> {
+		const { readdir, rm } = await import('node:fs/promises');
+		const { join } = await import('node:path');
+		const files = await readdir(this.directory).catch(() => [] as string[]);
+		await Promise.all(
+			files
+				.filter((file) => file.endsWith('.json'))
+				.map((file) => rm(join(this.directory, file), { force: true })),
+		);
+	}
+
+	private async pathFor(key: string): Promise<string> {
+		const { createHash } = await import('node:crypto');
+		const { join } = await import('node:path');
+		return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+	}
+}
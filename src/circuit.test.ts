@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { CircuitBreaker } from './circuit';
+import {
+	CircuitOpenError,
+	NetworkError,
+	NotFoundError,
+	RequestValidationError,
+	ServerError,
+} from './errors';
+import type { CircuitStateChange } from './types';
+
+describe('CircuitBreaker', () => {
+	const healthy = async () => ({ status: 'ok' });
+
+	test('should open after consecutive failures and fail fast', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 2 }, healthy);
+
+		breaker.recordFailure(new ServerError('boom', 503));
+		expect(breaker.state).toBe('closed');
+		breaker.recordFailure(new NetworkError('reset'));
+		expect(breaker.state).toBe('open');
+
+		const error = await breaker.acquire().catch((caught: unknown) => caught);
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect((error as CircuitOpenError).retryAt).toBeInstanceOf(Date);
+	});
+
+	test('should ignore client errors and reset the streak on success', () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 2 }, healthy);
+
+		breaker.recordFailure(new ServerError());
+		breaker.recordFailure(new NotFoundError());
+		breaker.recordSuccess();
+		breaker.recordFailure(new ServerError());
+		expect(breaker.state).toBe('closed');
+	});
+
+	test('should open on the failure rate once the window has enough requests', () => {
+		const breaker = new CircuitBreaker(
+			{ failureThreshold: 100, failureRateThreshold: 0.5, minimumRequests: 4 },
+			healthy,
+		);
+
+		breaker.recordFailure(new ServerError());
+		breaker.recordSuccess();
+		breaker.recordFailure(new ServerError());
+		expect(breaker.state).toBe('closed');
+		breaker.recordSuccess();
+		expect(breaker.state).toBe('closed');
+		breaker.recordFailure(new ServerError());
+		expect(breaker.state).toBe('open');
+	});
+
+	test('should close after a successful half-open probe and report transitions', async () => {
+		const changes: CircuitStateChange[] = [];
+		const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 0 }, healthy);
+		breaker.onStateChange((change) => changes.push(change));
+
+		breaker.recordFailure(new ServerError());
+		await breaker.acquire();
+
+		expect(breaker.state).toBe('closed');
+		expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+			'closed->open',
+			'open->half-open',
+			'half-open->closed',
+		]);
+		expect(changes[0]?.error).toBeInstanceOf(ServerError);
+	});
+
+	test('should reopen when the probe fails', async () => {
+		let probes = 0;
+		const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 0 }, async () => {
+			probes++;
+			throw new NetworkError('still down');
+		});
+
+		breaker.recordFailure(new ServerError());
+		const results = await Promise.allSettled([breaker.acquire(), breaker.acquire()]);
+
+		expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+		expect(probes).toBe(1);
+		expect(breaker.state).toBe('open');
+	});
+
+	test('should reject invalid settings', () => {
+		expect(() => new CircuitBreaker({ failureRateThreshold: 2 }, healthy)).toThrow(
+			RequestValidationError,
+		);
+		expect(() => new CircuitBreaker({ failureThreshold: 0 }, healthy)).toThrow(
+			RequestValidationError,
+		);
+	});
+});
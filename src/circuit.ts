@@ -0,0 +1,226 @@
+/**
+ * Circuit breaker that stops sending traffic to a failing Crawl4AI server
+ */
+
+import { CircuitOpenError, RequestValidationError } from './errors';
+import { isServerFailure } from './retry';
+import type { CircuitBreakerConfig, CircuitState, CircuitStateChange } from './types';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_WINDOW_SIZE = 20;
+const DEFAULT_MINIMUM_REQUESTS = 10;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+/**
+ * Circuit breaker - closed while the server is healthy, open (failing fast) after
+ * consecutive failures or a high failure rate, and half-open while a probe decides
+ * whether to close again
+ *
+ * Available as `client.circuitBreaker` when `circuitBreaker` is configured.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({
+ *   baseUrl: 'http://localhost:11235',
+ *   circuitBreaker: { failureThreshold: 3, resetTimeout: 10_000 }
+ * });
+ *
+ * client.circuitBreaker?.onStateChange(({ from, to }) => alert(`circuit ${from} -> ${to}`));
+ * ```
+ */
+export class CircuitBreaker {
+	private currentState: CircuitState = 'closed';
+	private consecutiveFailures = 0;
+	private outcomes: boolean[] = [];
+	private openedAt = 0;
+	private lastFailure: Error | undefined;
+	private probing: Promise<void> | undefined;
+	private readonly listeners = new Set<(change: CircuitStateChange) => void>();
+
+	constructor(
+		private readonly config: CircuitBreakerConfig,
+		private readonly probe: () => Promise<unknown>,
+	) {
+		const ratio = config.failureRateThreshold;
+		if (ratio !== undefined && (ratio <= 0 || ratio > 1 || Number.isNaN(ratio))) {
+			throw new RequestValidationError(
+				'circuitBreaker.failureRateThreshold must be between 0 and 1',
+				'circuitBreaker.failureRateThreshold',
+				ratio,
+			);
+		}
+
+		const counts: Array<[string, number | undefined]> = [
+			['failureThreshold', config.failureThreshold],
+			['windowSize', config.windowSize],
+			['minimumRequests', config.minimumRequests],
+		];
+		for (const [field, value] of counts) {
+			if (value !== undefined && (value < 1 || !Number.isInteger(value))) {
+				throw new RequestValidationError(
+					`circuitBreaker.${field} must be a positive integer`,
+					`circuitBreaker.${field}`,
+					value,
+				);
+			}
+		}
+
+		if (
+			config.resetTimeout !== undefined &&
+			(config.resetTimeout < 0 || !Number.isFinite(config.resetTimeout))
+		) {
+			throw new RequestValidationError(
+				'circuitBreaker.resetTimeout must be a non-negative number',
+				'circuitBreaker.resetTimeout',
+				config.resetTimeout,
+			);
+		}
+
+		if (config.onStateChange) {
+			this.listeners.add(config.onStateChange);
+		}
+	}
+
+	/**
+	 * Current circuit state
+	 */
+	public get state(): CircuitState {
+		return this.currentState;
+	}
+
+	/**
+	 * Subscribe to state transitions
+	 *
+	 * @returns Function that removes the listener
+	 */
+	public onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Wait until a request may be sent. While open, rejects immediately; once the reset
+	 * timeout has passed, a single `health()` probe (shared by concurrent callers) decides
+	 * whether the circuit closes.
+	 *
+	 * @throws {CircuitOpenError} If the circuit is open or the probe failed
+	 */
+	public async acquire(): Promise<void> {
+		if (this.currentState === 'closed') {
+			return;
+		}
+
+		if (this.currentState === 'open') {
+			const retryAt = this.openedAt + (this.config.resetTimeout ?? DEFAULT_RESET_TIMEOUT);
+			if (Date.now() < retryAt) {
+				throw new CircuitOpenError(new Date(retryAt), this.lastFailure);
+			}
+			this.transition('half-open');
+			this.probing = this.runProbe();
+		}
+
+		await this.probing;
+	}
+
+	/**
+	 * Record a successful request
+	 */
+	public recordSuccess(): void {
+		this.consecutiveFailures = 0;
+		this.pushOutcome(true);
+	}
+
+	/**
+	 * Record a failed request; errors that are not server failures are ignored
+	 */
+	public recordFailure(error: Error): void {
+		if (!(this.config.isFailure ?? isServerFailure)(error)) {
+			return;
+		}
+
+		this.lastFailure = error;
+		this.consecutiveFailures++;
+		this.pushOutcome(false);
+
+		if (this.currentState === 'closed' && this.shouldOpen()) {
+			this.open(error);
+		}
+	}
+
+	/**
+	 * Force the circuit closed and clear its history
+	 */
+	public reset(): void {
+		this.consecutiveFailures = 0;
+		this.outcomes = [];
+		this.lastFailure = undefined;
+		if (this.currentState !== 'closed') {
+			this.transition('closed');
+		}
+	}
+
+	private async runProbe(): Promise<void> {
+		try {
+			await this.probe();
+		} catch (error) {
+			this.open(error as Error);
+			throw new CircuitOpenError(
+				new Date(this.openedAt + (this.config.resetTimeout ?? DEFAULT_RESET_TIMEOUT)),
+				error as Error,
+			);
+		} finally {
+			this.probing = undefined;
+		}
+		this.reset();
+	}
+
+	private shouldOpen(): boolean {
+		if (
+			this.consecutiveFailures >= (this.config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)
+		) {
+			return true;
+		}
+
+		const ratio = this.config.failureRateThreshold;
+		if (
+			ratio === undefined ||
+			this.outcomes.length < (this.config.minimumRequests ?? DEFAULT_MINIMUM_REQUESTS)
+		) {
+			return false;
+		}
+		const failures = this.outcomes.filter((success) => !success).length;
+		return failures / this.outcomes.length >= ratio;
+	}
+
+	private pushOutcome(success: boolean): void {
+		this.outcomes.push(success);
+		const windowSize = this.config.windowSize ?? DEFAULT_WINDOW_SIZE;
+		if (this.outcomes.length > windowSize) {
+			this.outcomes.splice(0, this.outcomes.length - windowSize);
+		}
+	}
+
+	private open(error: Error): void {
+		this.openedAt = Date.now();
+		this.lastFailure = error;
+		this.transition('open', error);
+	}
+
+	private transition(to: CircuitState, error?: Error): void {
+		const change: CircuitStateChange = { from: this.currentState, to, at: new Date() };
+		if (error) {
+			change.error = error;
+		}
+		this.currentState = to;
+
+		for (const listener of this.listeners) {
+			try {
+				listener(change);
+			} catch {
+				// A faulty listener must not break request handling
+			}
+		}
+	}
+}
@@ -0,0 +1,211 @@
+import { describe, expect, test } from 'bun:test';
+import {
+	AuthError,
+	CircuitOpenError,
+	Crawl4AIError,
+	createHttpError,
+	DeadlineExceededError,
+	FixtureMissError,
+	isServerValidationError,
+	McpError,
+	NetworkError,
+	NotFoundError,
+	ParseError,
+	RateLimitError,
+	RequestValidationError,
+	ServerError,
+	ServerValidationError,
+	TimeoutError,
+} from './errors';
+
+const fastApiBody = {
+	detail: [
+		{
+			loc: ['body', 'crawler_config', 'extraction_strategy', 'params', 'schema'],
+			msg: 'Field required',
+			type: 'missing',
+		},
+		{ loc: ['body', 'urls', 0], msg: 'Input should be a valid URL', type: 'url_parsing' },
+	],
+};
+
+describe('createHttpError', () => {
+	test('should decode 422 bodies into issues with dotted paths', () => {
+		const error = createHttpError(422, 'Unprocessable Entity', undefined, fastApiBody);
+
+		expect(error).toBeInstanceOf(ServerValidationError);
+		expect(isServerValidationError(error)).toBe(true);
+		expect((error as ServerValidationError).issues).toEqual([
+			{
+				path: 'crawler_config.extraction_strategy.params.schema',
+				message: 'Field required',
+				type: 'missing',
+				loc: ['body', 'crawler_config', 'extraction_strategy', 'params', 'schema'],
+			},
+			{
+				path: 'urls.0',
+				message: 'Input should be a valid URL',
+				type: 'url_parsing',
+				loc: ['body', 'urls', 0],
+			},
+		]);
+		expect(error.message).toBe(
+			'Request rejected by server: crawler_config.extraction_strategy.params.schema: Field required; urls.0: Input should be a valid URL',
+		);
+		expect(error.status).toBe(422);
+		expect(error.data).toEqual(fastApiBody);
+	});
+
+	test('should keep 422 errors without field details', () => {
+		const error = createHttpError(422, 'Unprocessable Entity', undefined, {
+			detail: 'Bad input',
+		});
+
+		expect(error).toBeInstanceOf(ServerValidationError);
+		expect((error as ServerValidationError).issues).toEqual([]);
+		expect(error.message).toBe('HTTP 422: Unprocessable Entity');
+		expect(error.data).toEqual({ detail: 'Bad input' });
+	});
+
+	test('should decode field details on 400 and stay a RequestValidationError', () => {
+		const withIssues = createHttpError(400, 'Bad Request', undefined, fastApiBody);
+		expect(withIssues).toBeInstanceOf(ServerValidationError);
+		expect(withIssues).toBeInstanceOf(RequestValidationError);
+		expect((withIssues as ServerValidationError).field).toBe(
+			'crawler_config.extraction_strategy.params.schema',
+		);
+		expect(withIssues.status).toBe(400);
+
+		const plain = createHttpError(400, 'Bad Request', undefined, { detail: 'Invalid URL' });
+		expect(plain).not.toBeInstanceOf(ServerValidationError);
+		expect(plain).toBeInstanceOf(RequestValidationError);
+		expect(plain.data).toEqual({ detail: 'Invalid URL' });
+	});
+
+	test('should keep the response body on every error class', () => {
+		const body = { detail: 'Something went wrong' };
+
+		for (const [status, errorClass] of [
+			[404, NotFoundError],
+			[500, ServerError],
+			[503, ServerError],
+			[418, Crawl4AIError],
+		] as const) {
+			const error = createHttpError(status, 'Status', undefined, body);
+			expect(error).toBeInstanceOf(errorClass);
+			expect(error.data).toEqual(body);
+		}
+		expect(createHttpError(500, 'Internal Server Error', undefined, '').data).toBeUndefined();
+	});
+});
+
+describe('error serialization', () => {
+	test('should give every error class a stable code', () => {
+		expect(
+			[
+				new Crawl4AIError('x'),
+				new NetworkError('x'),
+				new TimeoutError(1000),
+				new DeadlineExceededError(1000),
+				new RequestValidationError('x'),
+				new ServerValidationError([]),
+				new RateLimitError('x'),
+				new AuthError(),
+				new ServerError(),
+				new NotFoundError(),
+				new ParseError('x'),
+				new McpError('x', -32600),
+				new CircuitOpenError(),
+				new FixtureMissError('GET', '/health'),
+			].map((error) => error.code),
+		).toEqual([
+			'E_CRAWL4AI',
+			'E_NETWORK',
+			'E_TIMEOUT',
+			'E_DEADLINE_EXCEEDED',
+			'E_VALIDATION',
+			'E_SERVER_VALIDATION',
+			'E_RATE_LIMIT',
+			'E_AUTH',
+			'E_SERVER',
+			'E_NOT_FOUND',
+			'E_PARSE',
+			'E_MCP',
+			'E_CIRCUIT_OPEN',
+			'E_FIXTURE_MISS',
+		]);
+	});
+
+	test('should keep name, message, cause and fields with secrets redacted', () => {
+		const error = new ServerError('HTTP 503: Service Unavailable', 503, 'Service Unavailable');
+		error.data = { detail: 'overloaded' };
+		error.request = {
+			url: 'https://example.com/crawl',
+			method: 'POST',
+			headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+			body: JSON.stringify({ urls: ['https://example.com'], api_token: 'sk-secret' }),
+		};
+		error.cause = new TypeError('fetch failed');
+
+		const json = JSON.parse(JSON.stringify(error));
+		expect(json).toMatchObject({
+			name: 'ServerError',
+			code: 'E_SERVER',
+			message: 'HTTP 503: Service Unavailable',
+			status: 503,
+			statusText: 'Service Unavailable',
+			data: { detail: 'overloaded' },
+			request: {
+				url: 'https://example.com/crawl',
+				headers: { Authorization: '[REDACTED]', 'Content-Type': 'application/json' },
+			},
+			cause: { name: 'TypeError', message: 'fetch failed' },
+		});
+		expect(json.request.body).not.toContain('sk-secret');
+		expect(typeof json.stack).toBe('string');
+	});
+
+	test('should rebuild typed errors with fromJSON', () => {
+		const original = new RateLimitError('Slow down', 30, {
+			'x-ratelimit-limit': '100',
+			'x-ratelimit-reset': '1700000000',
+		});
+		original.cause = new CircuitOpenError(new Date('2030-01-01T00:00:00Z'));
+
+		const rebuilt = Crawl4AIError.fromJSON(JSON.stringify(original));
+		expect(rebuilt).toBeInstanceOf(RateLimitError);
+		expect(rebuilt).toBeInstanceOf(Crawl4AIError);
+		expect(rebuilt.message).toBe('Slow down');
+		expect(rebuilt.code).toBe('E_RATE_LIMIT');
+		expect(rebuilt.status).toBe(429);
+		expect((rebuilt as RateLimitError).retryAfter).toBe(30);
+		expect((rebuilt as RateLimitError).reset).toEqual(new Date(1700000000 * 1000));
+		expect(rebuilt.stack).toBe(original.stack);
+		expect(rebuilt.cause).toBeInstanceOf(CircuitOpenError);
+		expect((rebuilt.cause as CircuitOpenError).retryAt).toEqual(
+			new Date('2030-01-01T00:00:00Z'),
+		);
+		expect(Object.keys(rebuilt)).not.toContain('message');
+	});
+
+	test('should round-trip decoded validation issues', () => {
+		const error = createHttpError(422, 'Unprocessable Entity', undefined, fastApiBody);
+		const rebuilt = Crawl4AIError.fromJSON(error.toJSON());
+
+		expect(rebuilt).toBeInstanceOf(ServerValidationError);
+		expect((rebuilt as ServerValidationError).issues).toEqual(
+			(error as ServerValidationError).issues,
+		);
+	});
+
+	test('should fall back to Crawl4AIError for unknown codes', () => {
+		const rebuilt = Crawl4AIError.fromJSON({
+			name: 'CustomError',
+			code: 'E_CUSTOM' as never,
+			message: 'Something else',
+		});
+		expect(rebuilt.constructor).toBe(Crawl4AIError);
+		expect(rebuilt.code).toBe('E_CRAWL4AI');
+		expect(rebuilt.name).toBe('CustomError');
+	});
+});
@@ -2,12 +2,55 @@
  * Custom error classes for Crawl4AI SDK
  */
 
-import type { ValidationError } from './types';
+import { redact } from './redact';
+import type { Crawl4AIErrorCode, SerializedError, ValidationError, ValidationIssue } from './types';
+
+// Date-valued fields, restored from ISO strings by fromJSON()
+const DATE_FIELDS = new Set(['reset', 'retryAt']);
+
+/**
+ * JSON form of an error cause: Crawl4AI errors keep every field, other errors their
+ * name, message and stack
+ */
+function serializeCause(cause: unknown): unknown {
+	if (cause instanceof Crawl4AIError) {
+		return cause.toJSON();
+	}
+	if (cause instanceof Error) {
+		return {
+			name: cause.name,
+			message: cause.message,
+			...(cause.stack !== undefined && { stack: cause.stack }),
+		};
+	}
+	return cause;
+}
+
+function reviveCause(cause: unknown): unknown {
+	if (
+		typeof cause !== 'object' ||
+		cause === null ||
+		typeof (cause as Error).message !== 'string'
+	) {
+		return cause;
+	}
+	if (typeof (cause as SerializedError).code === 'string') {
+		return Crawl4AIError.fromJSON(cause as SerializedError);
+	}
+	const { name, message, stack } = cause as Error;
+	const error = new Error(message);
+	error.name = name;
+	if (stack !== undefined) {
+		error.stack = stack;
+	}
+	return error;
+}
 
 /**
  * Base error class for all Crawl4AI errors
  */
 export class Crawl4AIError extends Error {
+	code: Crawl4AIErrorCode = 'E_CRAWL4AI';
 	status?: number;
 	statusText?: string;
 	data?: ValidationError | Record<string, unknown>;
@@ -36,6 +79,70 @@ export class Crawl4AIError extends Error {
 			this.data = data;
 		}
 	}
+
+	/**
+	 * Plain-object form for logs and `JSON.stringify()`, keeping name, code, message, cause
+	 * and class-specific fields. Secrets in the request, response data and message are
+	 * masked with the default redaction rules.
+	 */
+	public toJSON(): SerializedError {
+		const { name, code, message, stack, cause, ...fields } = this;
+		const json: SerializedError = { name, code, message };
+		for (const [field, value] of Object.entries(fields)) {
+			if (value !== undefined) {
+				json[field] = value;
+			}
+		}
+		if (cause !== undefined) {
+			json.cause = serializeCause(cause);
+		}
+		if (stack !== undefined) {
+			json.stack = stack;
+		}
+		return redact(json);
+	}
+
+	/**
+	 * Rebuild an error from `toJSON()` output (or its JSON text), with the class picked by
+	 * `code`. Unknown codes give a plain Crawl4AIError.
+	 *
+	 * @example
+	 * ```typescript
+	 * worker.postMessage({ error: error.toJSON() });
+	 * // ...on the other side
+	 * const error = Crawl4AIError.fromJSON(message.error);
+	 * if (error instanceof RateLimitError) await sleep((error.retryAfter ?? 1) * 1000);
+	 * ```
+	 */
+	public static fromJSON(json: SerializedError | string): Crawl4AIError {
+		const { name, code, message, stack, cause, ...fields } = (
+			typeof json === 'string' ? JSON.parse(json) : json
+		) as SerializedError;
+		const errorClass = ERROR_CLASSES[code] ?? Crawl4AIError;
+		const error: Crawl4AIError = Object.create(errorClass.prototype);
+
+		// Error's own properties are non-enumerable; keep it that way
+		Object.defineProperty(error, 'message', {
+			value: message,
+			writable: true,
+			configurable: true,
+		});
+		Object.defineProperty(error, 'stack', {
+			value: stack ?? `${name}: ${message}`,
+			writable: true,
+			configurable: true,
+		});
+		error.name = name;
+		error.code = ERROR_CLASSES[code] ? code : 'E_CRAWL4AI';
+		for (const [field, value] of Object.entries(fields)) {
+			(error as unknown as Record<string, unknown>)[field] =
+				DATE_FIELDS.has(field) && typeof value === 'string' ? new Date(value) : value;
+		}
+		if (cause !== undefined) {
+			error.cause = reviveCause(cause);
+		}
+		return error;
+	}
 }
 
 /**
@@ -45,6 +152,7 @@ export class NetworkError extends Crawl4AIError {
 	constructor(message: string, cause?: Error) {
 		super(message);
 		this.name = 'NetworkError';
+		this.code = 'E_NETWORK';
 		if (cause) {
 			this.cause = cause;
 		}
@@ -63,10 +171,45 @@ export class TimeoutError extends NetworkError {
 			: `Request timed out after ${timeout}ms`;
 		super(message);
 		this.name = 'TimeoutError';
+		this.code = 'E_TIMEOUT';
 		this.timeout = timeout;
 	}
 }
 
+/**
+ * Whole-operation deadline exceeded (spans all retry attempts and backoff sleeps)
+ */
+export class DeadlineExceededError extends TimeoutError {
+	deadline: number;
+
+	constructor(deadline: number, url?: string, cause?: Error) {
+		super(deadline, url);
+		this.name = 'DeadlineExceededError';
+		this.code = 'E_DEADLINE_EXCEEDED';
+		this.message = url
+			? `Request to ${url} exceeded its ${deadline}ms deadline`
+			: `Request exceeded its ${deadline}ms deadline`;
+		this.deadline = deadline;
+		if (cause) {
+			this.cause = cause;
+		}
+	}
+}
+
+/**
+ * Request cancelled through a caller-supplied AbortSignal
+ */
+export class AbortedError extends Crawl4AIError {
+	constructor(url?: string, reason?: unknown) {
+		super(url ? `Request to ${url} was aborted` : 'Request was aborted');
+		this.name = 'AbortedError';
+		this.code = 'E_ABORTED';
+		if (reason !== undefined) {
+			this.cause = reason;
+		}
+	}
+}
+
 /**
  * Validation errors for request parameters
  */
@@ -77,6 +220,7 @@ export class RequestValidationError extends Crawl4AIError {
 	constructor(message: string, field?: string, value?: unknown) {
 		super(message, 400, 'Bad Request');
 		this.name = 'RequestValidationError';
+		this.code = 'E_VALIDATION';
 		if (field !== undefined) {
 			this.field = field;
 		}
@@ -86,6 +230,28 @@ export class RequestValidationError extends Crawl4AIError {
 	}
 }
 
+/**
+ * Request body rejected by the server's schema (FastAPI 422, or a 400 carrying field details)
+ */
+export class ServerValidationError extends RequestValidationError {
+	issues: ValidationIssue[];
+
+	constructor(
+		issues: ValidationIssue[],
+		status: number = 422,
+		statusText: string = 'Unprocessable Entity',
+		message?: string,
+	) {
+		const summary = issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+		super(message ?? `Request rejected by server: ${summary}`, issues[0]?.path);
+		this.name = 'ServerValidationError';
+		this.code = 'E_SERVER_VALIDATION';
+		this.status = status;
+		this.statusText = statusText;
+		this.issues = issues;
+	}
+}
+
 /**
  * Rate limiting error
  */
@@ -98,6 +264,7 @@ export class RateLimitError extends Crawl4AIError {
 	constructor(message: string, retryAfter?: number, headers?: Record<string, string>) {
 		super(message, 429, 'Too Many Requests');
 		this.name = 'RateLimitError';
+		this.code = 'E_RATE_LIMIT';
 
 		if (retryAfter !== undefined) {
 			this.retryAfter = retryAfter;
@@ -125,6 +292,7 @@ export class AuthError extends Crawl4AIError {
 	constructor(message: string = 'Authentication failed', status: number = 401) {
 		super(message, status, status === 401 ? 'Unauthorized' : 'Forbidden');
 		this.name = 'AuthError';
+		this.code = 'E_AUTH';
 	}
 }
 
@@ -139,6 +307,7 @@ export class ServerError extends Crawl4AIError {
 	) {
 		super(message, status, statusText || 'Internal Server Error');
 		this.name = 'ServerError';
+		this.code = 'E_SERVER';
 	}
 }
 
@@ -152,6 +321,7 @@ export class NotFoundError extends Crawl4AIError {
 		const message = resource ? `Resource not found: ${resource}` : 'Resource not found';
 		super(message, 404, 'Not Found');
 		this.name = 'NotFoundError';
+		this.code = 'E_NOT_FOUND';
 		if (resource) {
 			this.resource = resource;
 		}
@@ -163,16 +333,101 @@ export class NotFoundError extends Crawl4AIError {
  */
 export class ParseError extends Crawl4AIError {
 	responseText?: string;
+	/** Location of the offending value in the response, e.g. `$.results[0].success` */
+	path?: string;
 
-	constructor(message: string, responseText?: string) {
+	constructor(message: string, responseText?: string, path?: string) {
 		super(message);
 		this.name = 'ParseError';
+		this.code = 'E_PARSE';
 		if (responseText) {
 			this.responseText = responseText;
 		}
+		if (path !== undefined) {
+			this.path = path;
+		}
 	}
 }
 
+/**
+ * Model Context Protocol error (JSON-RPC error response or failed tool call)
+ */
+export class McpError extends Crawl4AIError {
+	rpcCode?: number;
+	rpcData?: unknown;
+
+	constructor(message: string, rpcCode?: number, rpcData?: unknown) {
+		super(message);
+		this.name = 'McpError';
+		this.code = 'E_MCP';
+		if (rpcCode !== undefined) {
+			this.rpcCode = rpcCode;
+		}
+		if (rpcData !== undefined) {
+			this.rpcData = rpcData;
+		}
+	}
+}
+
+/**
+ * Request rejected without contacting the server because the circuit breaker is open
+ */
+export class CircuitOpenError extends Crawl4AIError {
+	retryAt?: Date;
+
+	constructor(retryAt?: Date, cause?: Error) {
+		super(
+			retryAt
+				? `Circuit breaker is open until ${retryAt.toISOString()}`
+				: 'Circuit breaker is open',
+		);
+		this.name = 'CircuitOpenError';
+		this.code = 'E_CIRCUIT_OPEN';
+		if (retryAt) {
+			this.retryAt = retryAt;
+		}
+		if (cause) {
+			this.cause = cause;
+		}
+	}
+}
+
+/**
+ * Replay transport found no recorded fixture for a request. Never retried: the same
+ * request would miss again.
+ */
+export class FixtureMissError extends Crawl4AIError {
+	method: string;
+	endpoint: string;
+
+	constructor(method: string, endpoint: string) {
+		super(`No fixture recorded for ${method} ${endpoint}`);
+		this.name = 'FixtureMissError';
+		this.code = 'E_FIXTURE_MISS';
+		this.method = method;
+		this.endpoint = endpoint;
+	}
+}
+
+// Error class behind each code, for fromJSON()
+const ERROR_CLASSES: Record<Crawl4AIErrorCode, { prototype: Crawl4AIError }> = {
+	E_CRAWL4AI: Crawl4AIError,
+	E_NETWORK: NetworkError,
+	E_TIMEOUT: TimeoutError,
+	E_DEADLINE_EXCEEDED: DeadlineExceededError,
+	E_ABORTED: AbortedError,
+	E_VALIDATION: RequestValidationError,
+	E_SERVER_VALIDATION: ServerValidationError,
+	E_RATE_LIMIT: RateLimitError,
+	E_AUTH: AuthError,
+	E_SERVER: ServerError,
+	E_NOT_FOUND: NotFoundError,
+	E_PARSE: ParseError,
+	E_MCP: McpError,
+	E_CIRCUIT_OPEN: CircuitOpenError,
+	E_FIXTURE_MISS: FixtureMissError,
+};
+
 /**
  * Type guard to check if an error is a Crawl4AI error
  */
@@ -194,6 +449,13 @@ export function isAuthError(error: unknown): error is AuthError {
 	return error instanceof AuthError;
 }
 
+/**
+ * Type guard to check if an error is a server-side request validation failure
+ */
+export function isServerValidationError(error: unknown): error is ServerValidationError {
+	return error instanceof ServerValidationError;
+}
+
 /**
  * Type guard to check if an error is a network error
  */
@@ -201,6 +463,65 @@ export function isNetworkError(error: unknown): error is NetworkError {
 	return error instanceof NetworkError;
 }
 
+/**
+ * Type guard to check if an error is a user cancellation
+ */
+export function isAbortedError(error: unknown): error is AbortedError {
+	return error instanceof AbortedError;
+}
+
+/**
+ * Type guard to check if an error came from an open circuit breaker
+ */
+export function isCircuitOpenError(error: unknown): error is CircuitOpenError {
+	return error instanceof CircuitOpenError;
+}
+
+/**
+ * Parse a Retry-After header into seconds; accepts delta-seconds or an HTTP-date
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+	if (!value?.trim()) {
+		return undefined;
+	}
+
+	if (/^\d+$/.test(value.trim())) {
+		return parseInt(value, 10);
+	}
+
+	const date = Date.parse(value);
+	if (Number.isNaN(date)) {
+		return undefined;
+	}
+	return Math.max(0, (date - now) / 1000);
+}
+
+/**
+ * Decode FastAPI's `{ detail: [{ loc, msg, type }] }` into issues with dotted paths.
+ * The leading `body` location is dropped: paths point into the request body.
+ */
+function validationIssues(data: unknown): ValidationIssue[] | undefined {
+	const detail = (data as Partial<ValidationError> | undefined)?.detail;
+	if (!Array.isArray(detail) || detail.length === 0) {
+		return undefined;
+	}
+
+	const issues: ValidationIssue[] = [];
+	for (const entry of detail) {
+		if (typeof entry !== 'object' || entry === null || typeof entry.msg !== 'string') {
+			return undefined;
+		}
+		const loc = Array.isArray(entry.loc) ? entry.loc : [];
+		const path = (loc[0] === 'body' && loc.length > 1 ? loc.slice(1) : loc).join('.');
+		const issue: ValidationIssue = { path: path || 'body', message: entry.msg, loc };
+		if (typeof entry.type === 'string') {
+			issue.type = entry.type;
+		}
+		issues.push(issue);
+	}
+	return issues;
+}
+
 /**
  * Helper to create appropriate error based on status code
  */
@@ -212,33 +533,54 @@ export function createHttpError(
 	headers?: Record<string, string>,
 ): Crawl4AIError {
 	const errorMessage = message || `HTTP ${status}: ${statusText}`;
+	const error = errorForStatus(status, statusText, errorMessage, data, headers);
 
+	// Keep the response body whichever class was chosen
+	if (data !== undefined && data !== '') {
+		error.data = data as ValidationError | Record<string, unknown>;
+	}
+	return error;
+}
+
+function errorForStatus(
+	status: number,
+	statusText: string,
+	message: string,
+	data: unknown,
+	headers?: Record<string, string>,
+): Crawl4AIError {
 	switch (status) {
-		case 400:
-			return new RequestValidationError(errorMessage);
+		case 400: {
+			const issues = validationIssues(data);
+			return issues
+				? new ServerValidationError(issues, status, statusText)
+				: new RequestValidationError(message);
+		}
+		case 422: {
+			const issues = validationIssues(data);
+			return new ServerValidationError(
+				issues ?? [],
+				status,
+				statusText,
+				issues ? undefined : message,
+			);
+		}
 		case 401:
-			return new AuthError(errorMessage, 401);
+			return new AuthError(message, 401);
 		case 403:
-			return new AuthError(errorMessage, 403);
+			return new AuthError(message, 403);
 		case 404:
 			return new NotFoundError();
 		case 429: {
-			const retryAfter = headers?.['retry-after']
-				? parseInt(headers['retry-after'], 10)
-				: undefined;
-			return new RateLimitError(errorMessage, retryAfter, headers);
+			const retryAfter = parseRetryAfter(headers?.['retry-after']);
+			return new RateLimitError(message, retryAfter, headers);
 		}
 		case 500:
 		case 502:
 		case 503:
 		case 504:
-			return new ServerError(errorMessage, status, statusText);
+			return new ServerError(message, status, statusText);
 		default:
-			return new Crawl4AIError(
-				errorMessage,
-				status,
-				statusText,
-				data as ValidationError | Record<string, unknown>,
-			);
+			return new Crawl4AIError(message, status, statusText);
 	}
 }
@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FixtureMissError, ParseError } from './errors';
+import { FixtureRecorder, loadFixtures, replayTransport } from './fixtures';
+import Crawl4AI from './sdk';
+import { jsonResponse } from './test-utils';
+import { fetchTransport } from './transport';
+import type { FetchLike, Fixture } from './types';
+
+// Every server response sets a cookie, which recordings must not keep
+const json = (data: unknown, status = 200) =>
+	jsonResponse(data, status, { 'set-cookie': 'session=abc' });
+
+// Stands in for a live server while recording
+const serverFetch: FetchLike = async (url, init) => {
+	const body = init.body ? JSON.parse(init.body as string) : {};
+	if (url.endsWith('/md')) {
+		return json({ markdown: `# ${body.url}`, success: true });
+	}
+	if (url.endsWith('/execute_js')) {
+		return json({ url: body.url, html: '', success: true, js_execution_result: { value: 42 } });
+	}
+	return json({
+		results: body.urls.map((item: string) => ({ url: item, html: '', success: true })),
+	});
+};
+
+const fixture = (endpoint: string, body: unknown, response: unknown): Fixture => ({
+	request: { method: 'POST', endpoint, headers: {}, body },
+	response: {
+		status: 200,
+		statusText: 'OK',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify(response),
+	},
+});
+
+describe('fixtures', () => {
+	const path = join(tmpdir(), `crawl4ai-fixtures-${process.pid}`, 'session.json');
+
+	afterEach(async () => {
+		await rm(join(path, '..'), { recursive: true, force: true });
+	});
+
+	test('should record a session and replay it without a server', async () => {
+		const recorder = new FixtureRecorder({ transport: fetchTransport(serverFetch) });
+		const recording = new Crawl4AI({
+			baseUrl: 'http://localhost:11235',
+			apiToken: 'secret-token',
+			transport: recorder.transport,
+		});
+
+		const crawled = await recording.crawl({ urls: ['https://example.com'] });
+		const markdown = await recording.markdown({ url: 'https://example.com' });
+		const executed = await recording.executeJs({ url: 'https://example.com', scripts: ['1'] });
+		await recorder.save(path);
+
+		const replaying = new Crawl4AI({
+			baseUrl: 'http://other-host:8080',
+			transport: replayTransport(await loadFixtures(path)),
+		});
+
+		expect(await replaying.crawl({ urls: ['https://example.com'] })).toEqual(crawled);
+		expect(await replaying.markdown({ url: 'https://example.com' })).toBe(markdown);
+		expect(await replaying.executeJs({ url: 'https://example.com', scripts: ['1'] })).toEqual(
+			executed,
+		);
+	});
+
+	test('should redact secrets in the fixture file', async () => {
+		const recorder = new FixtureRecorder({ transport: fetchTransport(serverFetch) });
+		const client = new Crawl4AI({
+			baseUrl: 'http://localhost:11235',
+			apiToken: 'secret-token',
+			transport: recorder.transport,
+		});
+
+		await client.crawl({
+			urls: ['https://example.com'],
+			crawler_config: {
+				extraction_strategy: { type: 'llm', params: { api_token: 'sk-secret' } },
+			},
+		});
+		await recorder.save(path);
+
+		const saved = await readFile(path, 'utf8');
+		expect(saved).not.toContain('secret-token');
+		expect(saved).not.toContain('sk-secret');
+		expect(saved).not.toContain('session=abc');
+		expect(recorder.recorded[0]?.request.endpoint).toBe('/crawl');
+	});
+
+	test('should redact secrets in recorded response bodies', async () => {
+		const recorder = new FixtureRecorder({
+			transport: fetchTransport(async (url, init) =>
+				url.endsWith('/token')
+					? json({
+							email: 'dev@example.com',
+							access_token: 'jwt-secret',
+							token_type: 'bearer',
+						})
+					: serverFetch(url, init),
+			),
+		});
+		const client = new Crawl4AI({
+			baseUrl: 'http://localhost:11235',
+			auth: { email: 'dev@example.com' },
+			transport: recorder.transport,
+		});
+
+		await client.markdown({ url: 'https://example.com' });
+
+		const [token] = recorder.recorded;
+		expect(token?.request.endpoint).toBe('/token');
+		expect(JSON.parse(token?.response.body ?? '')).toEqual({
+			email: 'dev@example.com',
+			access_token: '[REDACTED]',
+			token_type: 'bearer',
+		});
+		expect(JSON.stringify(recorder.toJSON())).not.toContain('jwt-secret');
+	});
+
+	test('should match on normalized bodies and serve repeats in order', async () => {
+		const replaying = new Crawl4AI({
+			baseUrl: 'http://localhost:11235',
+			transport: replayTransport({
+				version: 1,
+				fixtures: [
+					fixture('/md', { url: 'https://example.com', f: 'fit' }, { markdown: 'first' }),
+					fixture(
+						'/md',
+						{ f: 'fit', url: 'https://example.com' },
+						{ markdown: 'second' },
+					),
+				],
+			}),
+		});
+		const request = { url: 'https://example.com', filter: 'fit' as const };
+
+		expect(await replaying.markdown(request)).toBe('first');
+		expect(await replaying.markdown(request)).toBe('second');
+		expect(await replaying.markdown(request)).toBe('second');
+	});
+
+	test('should fail fast when no fixture matches', async () => {
+		let calls = 0;
+		const replay = replayTransport([fixture('/md', { url: 'https://a.com' }, {})]);
+		const replaying = new Crawl4AI({
+			baseUrl: 'http://localhost:11235',
+			retries: 3,
+			transport: (request) => {
+				calls++;
+				return replay(request);
+			},
+		});
+
+		await expect(replaying.markdown({ url: 'https://b.com' })).rejects.toThrow(
+			FixtureMissError,
+		);
+		expect(calls).toBe(1);
+	});
+
+	test('should hand unmatched requests to the fallback transport', async () => {
+		const replaying = new Crawl4AI({
+			baseUrl: 'http://localhost:11235',
+			transport: replayTransport([], { fallback: fetchTransport(serverFetch) }),
+		});
+
+		expect(await replaying.markdown({ url: 'https://example.com' })).toBe(
+			'# https://example.com',
+		);
+	});
+
+	test('should reject files that are not fixture files', async () => {
+		const recorder = new FixtureRecorder();
+		await recorder.save(path);
+		expect(await loadFixtures(path)).toEqual([]);
+
+		await Bun.write(path, JSON.stringify({ fixtures: [] }));
+		await expect(loadFixtures(path)).rejects.toThrow(ParseError);
+	});
+});
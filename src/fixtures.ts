@@ -0,0 +1,204 @@
+/**
+ * Record-and-replay fixtures: capture real traffic once, then run tests without a server
+ */
+
+import { FixtureMissError, ParseError } from './errors';
+import { requestKey } from './normalize';
+import { createRedactor } from './redact';
+import { fetchTransport } from './transport';
+import type {
+	Fixture,
+	FixtureFile,
+	FixtureRecorderOptions,
+	FixtureRequest,
+	ReplayOptions,
+	Transport,
+	TransportRequest,
+	TransportResponse,
+} from './types';
+
+const FIXTURE_VERSION = 1;
+// Bodies are stored decoded, so these no longer describe them
+const DROPPED_RESPONSE_HEADERS = new Set([
+	'content-encoding',
+	'content-length',
+	'transfer-encoding',
+]);
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * Describe a transport request the way fixtures store it: endpoint relative to the
+ * server, secrets redacted, JSON bodies parsed
+ */
+function toFixtureRequest(request: TransportRequest, redact: <T>(value: T) => T): FixtureRequest {
+	const url = new URL(request.url);
+	const fixtureRequest: FixtureRequest = {
+		method: request.method,
+		endpoint: `${url.pathname}${url.search}`,
+		headers: redact(request.headers),
+	};
+	if (request.body !== undefined) {
+		const body = redact(request.body);
+		try {
+			fixtureRequest.body = JSON.parse(body);
+		} catch {
+			fixtureRequest.body = body;
+		}
+	}
+	return fixtureRequest;
+}
+
+function fixtureKey({ method, endpoint, body }: FixtureRequest): string {
+	const text = body === undefined || typeof body === 'string' ? body : JSON.stringify(body);
+	return requestKey(method, endpoint, text);
+}
+
+/**
+ * Records every request and response that passes through its `transport`. Headers and
+ * bodies are redacted before they are stored.
+ *
+ * Responses are read in full before they are handed to the client, so streaming
+ * endpoints deliver their results at once while recording.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new FixtureRecorder();
+ * const client = new Crawl4AI({ baseUrl: 'http://localhost:11235', transport: recorder.transport });
+ *
+ * await client.markdown({ url: 'https://example.com' });
+ * await recorder.save('fixtures/markdown.json');
+ * ```
+ */
+export class FixtureRecorder {
+	private readonly fixtures: Fixture[] = [];
+	private readonly upstream: Transport;
+	private readonly redact: <T>(value: T) => T;
+
+	constructor(options: FixtureRecorderOptions = {}) {
+		this.upstream = options.transport ?? fetchTransport();
+		this.redact = createRedactor(options.redact);
+	}
+
+	/**
+	 * Transport to pass to the client
+	 */
+	public readonly transport: Transport = async (request) => {
+		const response = await this.upstream(request);
+		const body = await response.text();
+
+		const headers: Record<string, string> = {};
+		response.headers.forEach((value, key) => {
+			if (!DROPPED_RESPONSE_HEADERS.has(key.toLowerCase())) {
+				headers[key] = value;
+			}
+		});
+
+		const fixture: Fixture = {
+			request: toFixtureRequest(request, this.redact),
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: this.redact(headers),
+				body: this.redact(body),
+			},
+		};
+		this.fixtures.push(fixture);
+		return toTransportResponse(fixture);
+	};
+
+	/**
+	 * Fixtures recorded so far, in request order
+	 */
+	public get recorded(): Fixture[] {
+		return [...this.fixtures];
+	}
+
+	public toJSON(): FixtureFile {
+		return { version: FIXTURE_VERSION, fixtures: this.recorded };
+	}
+
+	/**
+	 * Write the recorded fixtures to a JSON file (Node.js/Bun), creating its directory
+	 */
+	public async save(path: string): Promise<void> {
+		const { mkdir, writeFile } = await import('node:fs/promises');
+		const { dirname } = await import('node:path');
+		await mkdir(dirname(path), { recursive: true });
+		await writeFile(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`);
+	}
+}
+
+/**
+ * Read a fixture file written by `FixtureRecorder.save()` (Node.js/Bun)
+ *
+ * @throws {ParseError} If the file is not a fixture file
+ */
+export async function loadFixtures(path: string): Promise<Fixture[]> {
+	const { readFile } = await import('node:fs/promises');
+	const text = await readFile(path, 'utf8');
+
+	let file: Partial<FixtureFile>;
+	try {
+		file = JSON.parse(text);
+	} catch (error) {
+		throw new ParseError(`Invalid fixture file ${path}: ${(error as Error).message}`, text);
+	}
+	if (file.version !== FIXTURE_VERSION || !Array.isArray(file.fixtures)) {
+		throw new ParseError(`Unsupported fixture file ${path}`, text);
+	}
+	return file.fixtures;
+}
+
+function toTransportResponse({ response }: Fixture): TransportResponse {
+	return new Response(NULL_BODY_STATUSES.has(response.status) ? null : response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+/**
+ * Transport that answers from recorded fixtures. A request matches a fixture with the same
+ * method, endpoint and normalized body (key order and redacted secrets do not matter);
+ * repeated requests get the matching fixtures in recorded order, then the last one again.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({
+ *   baseUrl: 'http://localhost:11235',
+ *   transport: replayTransport(await loadFixtures('fixtures/markdown.json'))
+ * });
+ * ```
+ */
+export function replayTransport(
+	fixtures: Fixture[] | FixtureFile,
+	options: ReplayOptions = {},
+): Transport {
+	const available = Array.isArray(fixtures) ? [...fixtures] : [...fixtures.fixtures];
+	const redact = createRedactor(options.redact);
+	const match =
+		options.match ??
+		((request: FixtureRequest, fixture: Fixture) =>
+			fixtureKey(request) === fixtureKey(fixture.request));
+	const served = new Set<Fixture>();
+
+	return async (request) => {
+		if (request.signal.aborted) {
+			throw request.signal.reason;
+		}
+
+		const fixtureRequest = toFixtureRequest(request, redact);
+		const candidates = available.filter((fixture) => match(fixtureRequest, fixture));
+		const fixture = candidates.find((candidate) => !served.has(candidate)) ?? candidates.at(-1);
+
+		if (!fixture) {
+			if (options.fallback) {
+				return options.fallback(request);
+			}
+			throw new FixtureMissError(fixtureRequest.method, fixtureRequest.endpoint);
+		}
+
+		served.add(fixture);
+		return toTransportResponse(fixture);
+	};
+}
@@ -3,6 +3,32 @@
  * Export all types and classes
  */
 
+export { FileCacheStore, MemoryCacheStore } from './cache';
+export { CircuitBreaker } from './circuit';
 export * from './errors';
+export { FixtureRecorder, loadFixtures, replayTransport } from './fixtures';
+export { consoleLogger } from './logger';
+export { McpClient } from './mcp';
+export { ClientMetrics } from './metrics';
+export { EndpointPool } from './pool';
+export {
+	findHistogram,
+	findMetric,
+	findSamples,
+	findSummary,
+	getMetricValue,
+	parsePrometheusText,
+} from './prometheus';
+export {
+	browserConfigToPython,
+	crawlerRunConfigToPython,
+	crawlRequestToPython,
+	toPythonLiteral,
+} from './python';
+export { RateLimiter } from './ratelimit';
+export { createRedactor, DEFAULT_REDACT_KEYS, redact } from './redact';
+export { computeBackoff, isRetryableError } from './retry';
 export { Crawl4AI, default } from './sdk';
+export { fetchTransport, isTransportResponse } from './transport';
 export * from './types';
+export { validateResponse } from './validate';
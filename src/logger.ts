@@ -0,0 +1,36 @@
+/**
+ * Leveled logging for the client
+ */
+
+import type { LogFields, Logger, LogLevel } from './types';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Logger writing to the console with a `[Crawl4AI]` prefix, dropping messages below
+ * `level`. Used when `debug: true` is set without a `logger`.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({
+ *   baseUrl: 'http://localhost:11235',
+ *   logger: consoleLogger('warn')
+ * });
+ * ```
+ */
+export function consoleLogger(level: LogLevel = 'debug'): Logger {
+	const write =
+		(messageLevel: LogLevel, sink: (...data: unknown[]) => void) =>
+		(message: string, fields?: LogFields) => {
+			if (LEVEL_ORDER[messageLevel] >= LEVEL_ORDER[level]) {
+				sink(`[Crawl4AI] ${message}`, fields ?? '');
+			}
+		};
+
+	return {
+		debug: write('debug', console.log),
+		info: write('info', console.info),
+		warn: write('warn', console.warn),
+		error: write('error', console.error),
+	};
+}
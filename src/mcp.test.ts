@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { version } from '../package.json';
+import { AbortedError, McpError } from './errors';
+import Crawl4AI from './sdk';
+import { jsonResponse } from './test-utils';
+
+describe('MCP Client', () => {
+	const encoder = new TextEncoder();
+
+	/**
+	 * Fake MCP server: answers JSON-RPC POSTs on the SSE stream opened by GET /mcp/sse
+	 */
+	const mockMcpServer = (
+		handle: (method: string, params: Record<string, unknown>) => unknown,
+	) => {
+		let stream: ReadableStreamDefaultController<Uint8Array> | undefined;
+		const send = (event: string, data: string) =>
+			stream?.enqueue(encoder.encode(`event: ${event}\ndata: ${data}\n\n`));
+
+		return spyOn(globalThis, 'fetch').mockImplementation((async (
+			input: string | URL | Request,
+			init?: RequestInit,
+		) => {
+			const url = String(input);
+			if (url.endsWith('/mcp/schema')) {
+				return jsonResponse({
+					tools: [{ name: 'md', description: 'Markdown', inputSchema: {} }],
+				});
+			}
+			if (url.endsWith('/mcp/sse')) {
+				const body = new ReadableStream<Uint8Array>({
+					start(controller) {
+						stream = controller;
+						send('endpoint', '/mcp/messages/?session_id=abc');
+					},
+				});
+				return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+			}
+
+			const message = JSON.parse(String(init?.body));
+			if (message.id !== undefined) {
+				const outcome = handle(message.method, message.params);
+				queueMicrotask(() =>
+					send(
+						'message',
+						JSON.stringify(
+							outcome instanceof Error
+								? {
+										jsonrpc: '2.0',
+										id: message.id,
+										error: { code: -32000, message: outcome.message },
+									}
+								: { jsonrpc: '2.0', id: message.id, result: outcome },
+						),
+					),
+				);
+			}
+			return new Response('Accepted', {
+				status: 202,
+				headers: { 'content-type': 'text/plain' },
+			});
+		}) as typeof fetch);
+	};
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	test('should list tools from /mcp/schema', async () => {
+		mockMcpServer(() => ({}));
+		const client = new Crawl4AI({ baseUrl: 'http://localhost:11235' });
+
+		const tools = await client.mcp.listTools();
+		expect(tools.map((tool) => tool.name)).toEqual(['md']);
+	});
+
+	test('should initialize a session and call tools over SSE', async () => {
+		const methods: string[] = [];
+		const fetchMock = mockMcpServer((method, params) => {
+			methods.push(method);
+			return method === 'tools/call'
+				? { content: [{ type: 'text', text: JSON.stringify({ args: params.arguments }) }] }
+				: { protocolVersion: '2024-11-05', capabilities: {} };
+		});
+		const client = new Crawl4AI({ baseUrl: 'http://localhost:11235', apiToken: 'secret' });
+
+		const result = await client.mcp.callToolJson<{ args: unknown }>('html', {
+			url: 'https://example.com',
+		});
+		await client.mcp.close();
+
+		expect(result).toEqual({ args: { url: 'https://example.com' } });
+		expect(methods).toEqual(['initialize', 'tools/call']);
+		const [postUrl, postInit] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+		expect(String(postUrl)).toBe('http://localhost:11235/mcp/messages/?session_id=abc');
+		expect((postInit?.headers as Record<string, string> | undefined)?.Authorization).toBe(
+			'Bearer secret',
+		);
+	});
+
+	test('should surface JSON-RPC errors as McpError', async () => {
+		mockMcpServer((method) =>
+			method === 'tools/call' ? new Error('Unknown tool') : { capabilities: {} },
+		);
+		const client = new Crawl4AI({ baseUrl: 'http://localhost:11235' });
+
+		await expect(client.mcp.callTool('missing', {})).rejects.toThrow(McpError);
+		await client.mcp.close();
+	});
+
+	test('should report the package version in the initialize handshake', async () => {
+		let clientInfo: unknown;
+		mockMcpServer((method, params) => {
+			if (method === 'initialize') {
+				clientInfo = params.clientInfo;
+			}
+			return { capabilities: {} };
+		});
+		const client = new Crawl4AI({ baseUrl: 'http://localhost:11235' });
+
+		await client.mcp.connect();
+		await client.mcp.close();
+
+		expect(clientInfo).toEqual({ name: 'crawl4ai-sdk', version });
+	});
+
+	test('should release abort listeners once calls settle', async () => {
+		mockMcpServer((method) =>
+			method === 'tools/call' ? { content: [] } : { capabilities: {} },
+		);
+		const client = new Crawl4AI({ baseUrl: 'http://localhost:11235' });
+		const { signal } = new AbortController();
+		let listeners = 0;
+		const add = signal.addEventListener.bind(signal);
+		const remove = signal.removeEventListener.bind(signal);
+		signal.addEventListener = ((...args: Parameters<typeof add>) => {
+			listeners++;
+			add(...args);
+		}) as typeof signal.addEventListener;
+		signal.removeEventListener = ((...args: Parameters<typeof remove>) => {
+			listeners--;
+			remove(...args);
+		}) as typeof signal.removeEventListener;
+
+		for (let call = 0; call < 3; call++) {
+			await client.mcp.callTool('html', {}, { signal });
+		}
+		await client.mcp.close();
+
+		expect(listeners).toBe(0);
+	});
+
+	test('should cancel opening the session when the caller aborts', async () => {
+		spyOn(globalThis, 'fetch').mockImplementation(
+			(async () =>
+				// The stream never announces its message endpoint
+				new Response(new ReadableStream<Uint8Array>(), {
+					headers: { 'content-type': 'text/event-stream' },
+				})) as unknown as typeof fetch,
+		);
+		const client = new Crawl4AI({ baseUrl: 'http://localhost:11235', timeout: 5000 });
+		const controller = new AbortController();
+
+		const connecting = client.mcp.connect({ signal: controller.signal });
+		setTimeout(() => controller.abort(), 10);
+
+		await expect(connecting).rejects.toThrow(AbortedError);
+	});
+
+	test('should keep the session open after the opening caller aborts', async () => {
+		const fetchMock = mockMcpServer((method) =>
+			method === 'tools/call'
+				? { content: [{ type: 'text', text: 'done' }] }
+				: { capabilities: {} },
+		);
+		const client = new Crawl4AI({ baseUrl: 'http://localhost:11235' });
+		const controller = new AbortController();
+
+		await client.mcp.callTool('html', {}, { signal: controller.signal });
+		controller.abort();
+		const result = await client.mcp.callTool('html', {});
+		await client.mcp.close();
+
+		expect(result.content).toEqual([{ type: 'text', text: 'done' }]);
+		const opened = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/mcp/sse'));
+		expect(opened).toHaveLength(1);
+	});
+});
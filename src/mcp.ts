@@ -0,0 +1,453 @@
+/**
+ * Model Context Protocol client for the Crawl4AI server's /mcp endpoints
+ */
+
+import { version } from '../package.json';
+import { AbortedError, McpError, NetworkError, ParseError, TimeoutError } from './errors';
+import { isTransportResponse } from './transport';
+import type {
+	Crawl4AIMcpToolArgs,
+	McpSchemaResponse,
+	McpTool,
+	McpToolResult,
+	RequestConfig,
+	RequestOptions,
+	TransportResponse,
+} from './types';
+
+const MCP_PROTOCOL_VERSION = '2024-11-05';
+const MCP_CLIENT_INFO = { name: 'crawl4ai-sdk', version };
+
+/**
+ * Request plumbing borrowed from the owning Crawl4AI client, so MCP traffic
+ * shares its base URL, auth headers and timeouts
+ *
+ * @internal
+ */
+export interface McpHost {
+	request<T>(endpoint: string, options: RequestOptions): Promise<T>;
+	baseUrl(): string;
+	timeout(): number;
+}
+
+interface SseEvent {
+	event: string;
+	data: string;
+}
+
+interface JsonRpcResponse {
+	jsonrpc: '2.0';
+	id?: number | string;
+	result?: unknown;
+	error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingCall {
+	resolve(value: unknown): void;
+	reject(error: Error): void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+interface McpSession {
+	endpoint: string;
+	controller: AbortController;
+	pending: Map<number, PendingCall>;
+	closed: boolean;
+}
+
+/**
+ * Parse a Server-Sent Events body into events
+ */
+async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let event = 'message';
+	let data: string[] = [];
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				return;
+			}
+			buffer += decoder.decode(value, { stream: true });
+
+			let newlineIndex = buffer.indexOf('\n');
+			while (newlineIndex !== -1) {
+				const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+				buffer = buffer.slice(newlineIndex + 1);
+				newlineIndex = buffer.indexOf('\n');
+
+				if (line === '') {
+					if (data.length > 0) {
+						yield { event, data: data.join('\n') };
+					}
+					event = 'message';
+					data = [];
+				} else if (line.startsWith('event:')) {
+					event = line.slice('event:'.length).trim();
+				} else if (line.startsWith('data:')) {
+					data.push(line.slice('data:'.length).replace(/^ /, ''));
+				}
+			}
+		}
+	} finally {
+		await reader.cancel().catch(() => {});
+	}
+}
+
+/**
+ * MCP client - Use a Crawl4AI server as a Model Context Protocol tool provider
+ *
+ * Available as `client.mcp` on every Crawl4AI instance. Tools are discovered via
+ * `/mcp/schema`; calls are JSON-RPC messages whose responses arrive on the `/mcp/sse` stream.
+ *
+ * @example
+ * ```typescript
+ * const tools = await client.mcp.listTools();
+ * const result = await client.mcp.callTool('md', { url: 'https://example.com', f: 'fit' });
+ * console.log(result.content[0]);
+ * await client.mcp.close();
+ * ```
+ */
+export class McpClient {
+	private session: Promise<McpSession> | undefined;
+	private nextId = 1;
+
+	constructor(private readonly host: McpHost) {}
+
+	/**
+	 * List the tools the server exposes over MCP
+	 */
+	public async listTools(config?: RequestConfig): Promise<McpTool[]> {
+		const schema = await this.host.request<McpSchemaResponse>('/mcp/schema', {
+			method: 'GET',
+			...config,
+		});
+		return schema?.tools ?? [];
+	}
+
+	/**
+	 * Open the SSE session and perform the MCP initialize handshake.
+	 * Called implicitly by `callTool()`; reconnects if the stream was closed.
+	 */
+	public async connect(config?: RequestConfig): Promise<void> {
+		await this.getSession(config);
+	}
+
+	/**
+	 * Invoke a tool and return its MCP result
+	 *
+	 * @param name - Tool name as listed by `listTools()`
+	 * @param args - Tool arguments; Crawl4AI's built-in tools are typed
+	 * @param config - Optional request configuration; `timeout` bounds the wait for the result
+	 *
+	 * @throws {McpError} If the server answers with a JSON-RPC error
+	 * @throws {TimeoutError} If no result arrives within the timeout
+	 */
+	public async callTool<K extends keyof Crawl4AIMcpToolArgs>(
+		name: K,
+		args: Crawl4AIMcpToolArgs[K],
+		config?: RequestConfig,
+	): Promise<McpToolResult>;
+	public async callTool(
+		name: string,
+		args?: Record<string, unknown>,
+		config?: RequestConfig,
+	): Promise<McpToolResult>;
+	public async callTool(
+		name: string,
+		args: object = {},
+		config?: RequestConfig,
+	): Promise<McpToolResult> {
+		const session = await this.getSession(config);
+		const result = await this.rpc(session, 'tools/call', { name, arguments: args }, config);
+		return result as McpToolResult;
+	}
+
+	/**
+	 * Invoke a tool and parse its text content as JSON
+	 *
+	 * @throws {McpError} If the tool reports an error
+	 * @throws {ParseError} If the tool output is not JSON
+	 */
+	public async callToolJson<T>(
+		name: string,
+		args?: Record<string, unknown>,
+		config?: RequestConfig,
+	): Promise<T> {
+		const result = await this.callTool(name, args, config);
+		const text = result.content.map((item) => (item.type === 'text' ? item.text : '')).join('');
+
+		if (result.isError) {
+			throw new McpError(text || `Tool ${name} failed`);
+		}
+
+		try {
+			return JSON.parse(text) as T;
+		} catch {
+			throw new ParseError(`Tool ${name} did not return JSON`, text);
+		}
+	}
+
+	/**
+	 * Close the SSE session and fail any pending calls
+	 */
+	public async close(): Promise<void> {
+		const pending = this.session;
+		this.session = undefined;
+		if (!pending) {
+			return;
+		}
+
+		const session = await pending.catch(() => undefined);
+		if (session) {
+			this.shutdown(session, new NetworkError('MCP session closed'));
+		}
+	}
+
+	private async getSession(config?: RequestConfig): Promise<McpSession> {
+		if (this.session) {
+			const session = await this.session;
+			if (!session.closed) {
+				return session;
+			}
+		}
+
+		const opening = this.openSession(config);
+		this.session = opening;
+		opening.catch(() => {
+			if (this.session === opening) {
+				this.session = undefined;
+			}
+		});
+		return opening;
+	}
+
+	private async openSession(config?: RequestConfig): Promise<McpSession> {
+		const signal = config?.signal;
+		if (signal?.aborted) {
+			throw new AbortedError('/mcp/sse', signal.reason);
+		}
+
+		// The caller's signal cancels opening the session, but the open session is shared
+		// with later calls, so it is not tied to that signal afterwards
+		const controller = new AbortController();
+		const forwardAbort = () => controller.abort(signal?.reason);
+		signal?.addEventListener('abort', forwardAbort, { once: true });
+		try {
+			return await this.establishSession(controller, config);
+		} finally {
+			signal?.removeEventListener('abort', forwardAbort);
+		}
+	}
+
+	/**
+	 * Open the event stream, read the announced message endpoint and initialize the session
+	 */
+	private async establishSession(
+		controller: AbortController,
+		config?: RequestConfig,
+	): Promise<McpSession> {
+		const response = await this.host.request<TransportResponse>('/mcp/sse', {
+			method: 'GET',
+			...config,
+			headers: { Accept: 'text/event-stream', ...config?.headers },
+			signal: controller.signal,
+			rawResponse: true,
+		});
+
+		if (!isTransportResponse(response) || !response.body) {
+			throw new ParseError('MCP endpoint did not return an event stream');
+		}
+
+		const events = readSseEvents(response.body);
+		const timeout = config?.timeout ?? this.host.timeout();
+
+		// The server announces where to POST messages as its first event
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const first = await Promise.race([
+			events.next(),
+			new Promise<never>((_, reject) => {
+				timer = setTimeout(() => reject(new TimeoutError(timeout, '/mcp/sse')), timeout);
+				controller.signal.addEventListener(
+					'abort',
+					() => reject(new AbortedError('/mcp/sse', controller.signal.reason)),
+					{ once: true },
+				);
+			}),
+		])
+			.catch((error: unknown) => {
+				controller.abort();
+				throw error;
+			})
+			.finally(() => {
+				clearTimeout(timer);
+			});
+
+		if (first.done || first.value.event !== 'endpoint') {
+			controller.abort();
+			throw new ParseError(
+				'MCP stream did not announce a message endpoint',
+				first.value?.data,
+			);
+		}
+
+		const session: McpSession = {
+			endpoint: this.toEndpointPath(first.value.data),
+			controller,
+			pending: new Map(),
+			closed: false,
+		};
+		void this.pump(session, events);
+
+		try {
+			await this.rpc(
+				session,
+				'initialize',
+				{
+					protocolVersion: MCP_PROTOCOL_VERSION,
+					capabilities: {},
+					clientInfo: MCP_CLIENT_INFO,
+				},
+				config,
+			);
+			await this.post(
+				session,
+				{ jsonrpc: '2.0', method: 'notifications/initialized' },
+				config,
+			);
+		} catch (error) {
+			this.shutdown(session, error as Error);
+			throw error;
+		}
+
+		return session;
+	}
+
+	/**
+	 * Convert the announced message URL into a path relative to the client's base URL
+	 */
+	private toEndpointPath(announced: string): string {
+		const baseUrl = this.host.baseUrl();
+		const url = new URL(announced.trim(), `${baseUrl}/mcp/sse`).href;
+		if (url.startsWith(`${baseUrl}/`)) {
+			return url.slice(baseUrl.length);
+		}
+		// Announced as root-relative on a base URL with a path prefix
+		return new URL(url).pathname + new URL(url).search;
+	}
+
+	/**
+	 * Dispatch JSON-RPC responses from the event stream to pending calls
+	 */
+	private async pump(session: McpSession, events: AsyncGenerator<SseEvent>): Promise<void> {
+		let failure = new NetworkError('MCP event stream closed');
+
+		try {
+			for await (const event of events) {
+				if (event.event !== 'message') {
+					continue;
+				}
+
+				let message: JsonRpcResponse;
+				try {
+					message = JSON.parse(event.data) as JsonRpcResponse;
+				} catch {
+					continue;
+				}
+
+				const call =
+					typeof message.id === 'number' ? session.pending.get(message.id) : undefined;
+				if (!call || typeof message.id !== 'number') {
+					continue;
+				}
+
+				session.pending.delete(message.id);
+				clearTimeout(call.timer);
+				if (message.error) {
+					call.reject(
+						new McpError(message.error.message, message.error.code, message.error.data),
+					);
+				} else {
+					call.resolve(message.result);
+				}
+			}
+		} catch (error) {
+			if (!session.controller.signal.aborted && error instanceof Error) {
+				failure = new NetworkError(`MCP event stream failed: ${error.message}`, error);
+			}
+		}
+
+		this.shutdown(session, failure);
+	}
+
+	private shutdown(session: McpSession, reason: Error): void {
+		session.closed = true;
+		session.controller.abort();
+		for (const call of session.pending.values()) {
+			clearTimeout(call.timer);
+			call.reject(reason);
+		}
+		session.pending.clear();
+	}
+
+	private async rpc(
+		session: McpSession,
+		method: string,
+		params: Record<string, unknown>,
+		config?: RequestConfig,
+	): Promise<unknown> {
+		const id = this.nextId++;
+		const timeout = config?.timeout ?? this.host.timeout();
+
+		const result = new Promise<unknown>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				session.pending.delete(id);
+				reject(new TimeoutError(timeout, `MCP ${method}`));
+			}, timeout);
+			session.pending.set(id, { resolve, reject, timer });
+		});
+		// Avoid an unhandled rejection if the call fails while the POST is still in flight
+		result.catch(() => {});
+
+		const signal = config?.signal;
+		const onAbort = () => {
+			const call = session.pending.get(id);
+			if (call) {
+				session.pending.delete(id);
+				clearTimeout(call.timer);
+				call.reject(new AbortedError(`MCP ${method}`, signal?.reason));
+			}
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+
+		try {
+			await this.post(session, { jsonrpc: '2.0', id, method, params }, config);
+			return await result;
+		} catch (error) {
+			const call = session.pending.get(id);
+			if (call) {
+				session.pending.delete(id);
+				clearTimeout(call.timer);
+			}
+			throw error;
+		} finally {
+			// A signal reused across calls must not keep settled calls alive
+			signal?.removeEventListener('abort', onAbort);
+		}
+	}
+
+	private async post(
+		session: McpSession,
+		message: Record<string, unknown>,
+		config?: RequestConfig,
+	): Promise<void> {
+		await this.host.request<unknown>(session.endpoint, {
+			method: 'POST',
+			body: JSON.stringify(message),
+			...config,
+		});
+	}
+}
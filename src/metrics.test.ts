@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { NetworkError, RequestValidationError } from './errors';
+import { ClientMetrics } from './metrics';
+import { findHistogram, getMetricValue, parsePrometheusText } from './prometheus';
+
+describe('ClientMetrics', () => {
+	test('should bucket call latency cumulatively in seconds', () => {
+		const metrics = new ClientMetrics({ buckets: [0.1, 1] });
+		metrics.recordCall('/md', 50);
+		metrics.recordCall('/md', 500);
+		metrics.recordCall('/md', 5000);
+
+		expect(metrics.snapshot()['/md']?.latency).toEqual({
+			buckets: [
+				{ le: 0.1, count: 1 },
+				{ le: 1, count: 2 },
+				{ le: Number.POSITIVE_INFINITY, count: 3 },
+			],
+			sum: 5.55,
+			count: 3,
+		});
+	});
+
+	test('should count statuses, error classes, retries and bytes per endpoint', () => {
+		const metrics = new ClientMetrics();
+		metrics.recordSent('/crawl', 120);
+		metrics.recordResponse('/crawl', 503, 20);
+		metrics.recordRetry('/crawl', 1500);
+		metrics.recordSent('/crawl', 120);
+		metrics.recordResponse('/crawl', 200, 800);
+		metrics.recordCall('/crawl', 2000);
+		metrics.recordCall('/html', 10, new NetworkError('connection reset'));
+
+		const snapshot = metrics.snapshot();
+		expect(snapshot['/crawl']).toMatchObject({
+			calls: 1,
+			statuses: { 200: 1, 503: 1 },
+			errors: {},
+			retries: 1,
+			backoffSeconds: 1.5,
+			bytesSent: 240,
+			bytesReceived: 820,
+		});
+		expect(snapshot['/html']?.errors).toEqual({ NetworkError: 1 });
+	});
+
+	test('should render Prometheus text that parses back', () => {
+		const metrics = new ClientMetrics({ buckets: [1] });
+		metrics.recordResponse('/md', 200, 42);
+		metrics.recordCall('/md', 250);
+		metrics.recordCall('/md', 100, new NetworkError('down'));
+
+		const families = parsePrometheusText(metrics.toPrometheus());
+
+		expect(
+			getMetricValue(families, 'crawl4ai_client_responses_total', {
+				endpoint: '/md',
+				status: '200',
+			}),
+		).toBe(1);
+		expect(
+			getMetricValue(families, 'crawl4ai_client_errors_total', {
+				endpoint: '/md',
+				error: 'NetworkError',
+			}),
+		).toBe(1);
+		expect(
+			getMetricValue(families, 'crawl4ai_client_received_bytes_total', { endpoint: '/md' }),
+		).toBe(42);
+		expect(
+			findHistogram(families, 'crawl4ai_client_request_duration_seconds', {
+				endpoint: '/md',
+			}),
+		).toMatchObject({
+			buckets: [
+				{ le: 1, count: 2 },
+				{ le: Number.POSITIVE_INFINITY, count: 2 },
+			],
+			count: 2,
+		});
+	});
+
+	test('should reset recorded values', () => {
+		const metrics = new ClientMetrics();
+		metrics.recordCall('/md', 10);
+		metrics.reset();
+
+		expect(metrics.snapshot()).toEqual({});
+	});
+
+	test('should reject invalid buckets', () => {
+		expect(() => new ClientMetrics({ buckets: [1, 0.5] })).toThrow(RequestValidationError);
+		expect(() => new ClientMetrics({ buckets: [] })).toThrow(RequestValidationError);
+	});
+});
@@ -0,0 +1,248 @@
+/**
+ * In-process client metrics: what the SDK sees per endpoint, as a snapshot or Prometheus text
+ */
+
+import { RequestValidationError } from './errors';
+import type { ClientMetricsConfig, ClientMetricsSnapshot, EndpointMetrics } from './types';
+
+/** Latency bucket bounds in seconds; crawls routinely take tens of seconds */
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const METRIC_PREFIX = 'crawl4ai_client';
+
+interface EndpointState {
+	calls: number;
+	/** Per-bucket (non-cumulative) counts; the last slot is +Inf */
+	bucketCounts: number[];
+	latencySum: number;
+	statuses: Map<number, number>;
+	errors: Map<string, number>;
+	retries: number;
+	backoffSeconds: number;
+	bytesSent: number;
+	bytesReceived: number;
+}
+
+const increment = <K>(counts: Map<K, number>, key: K) =>
+	counts.set(key, (counts.get(key) ?? 0) + 1);
+
+const escapeLabel = (value: string) =>
+	value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Record<string, string>) =>
+	`{${Object.entries(labels)
+		.map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+		.join(',')}}`;
+
+/**
+ * Client metrics collector - records every call made through the client's request
+ * pipeline: latency (including retries and backoff), response statuses, error classes,
+ * retries and bytes on the wire, per endpoint
+ *
+ * Available as `client.clientMetrics` when `clientMetrics` is configured.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({ baseUrl: 'http://localhost:11235', clientMetrics: true });
+ *
+ * // Serve alongside your own metrics
+ * app.get('/metrics', (_, res) => res.type('text/plain').send(client.clientMetrics!.toPrometheus()));
+ * ```
+ */
+export class ClientMetrics {
+	private readonly endpoints = new Map<string, EndpointState>();
+	private readonly buckets: number[];
+
+	constructor(config: ClientMetricsConfig = {}) {
+		const buckets = config.buckets ?? DEFAULT_BUCKETS;
+		if (
+			buckets.length === 0 ||
+			buckets.some(
+				(bound, index) =>
+					!Number.isFinite(bound) || bound <= 0 || bound <= (buckets[index - 1] ?? 0),
+			)
+		) {
+			throw new RequestValidationError(
+				'clientMetrics.buckets must be positive, finite and ascending',
+				'clientMetrics.buckets',
+				buckets,
+			);
+		}
+		this.buckets = [...buckets];
+	}
+
+	/**
+	 * Record a finished call (all attempts and backoff)
+	 *
+	 * @internal
+	 */
+	public recordCall(endpoint: string, durationMs: number, error?: Error): void {
+		const state = this.state(endpoint);
+		const seconds = durationMs / 1000;
+		const bucket = this.buckets.findIndex((bound) => seconds <= bound);
+
+		state.calls++;
+		state.latencySum += seconds;
+		state.bucketCounts[bucket === -1 ? this.buckets.length : bucket]++;
+		if (error) {
+			increment(state.errors, error.name);
+		}
+	}
+
+	/**
+	 * Record the request body of one attempt
+	 *
+	 * @internal
+	 */
+	public recordSent(endpoint: string, bytes: number): void {
+		this.state(endpoint).bytesSent += bytes;
+	}
+
+	/**
+	 * Record the response to one attempt
+	 *
+	 * @internal
+	 */
+	public recordResponse(endpoint: string, status: number, bytes = 0): void {
+		const state = this.state(endpoint);
+		increment(state.statuses, status);
+		state.bytesReceived += bytes;
+	}
+
+	/**
+	 * Record a retry and the backoff before it
+	 *
+	 * @internal
+	 */
+	public recordRetry(endpoint: string, delayMs: number): void {
+		const state = this.state(endpoint);
+		state.retries++;
+		state.backoffSeconds += delayMs / 1000;
+	}
+
+	/**
+	 * Current values per endpoint; latency buckets are cumulative, in seconds
+	 */
+	public snapshot(): ClientMetricsSnapshot {
+		const snapshot: ClientMetricsSnapshot = {};
+		for (const [endpoint, state] of this.endpoints) {
+			let cumulative = 0;
+			const buckets = [...this.buckets, Number.POSITIVE_INFINITY].map((le, index) => {
+				cumulative += state.bucketCounts[index] ?? 0;
+				return { le, count: cumulative };
+			});
+
+			const metrics: EndpointMetrics = {
+				calls: state.calls,
+				latency: { buckets, sum: state.latencySum, count: state.calls },
+				statuses: Object.fromEntries(state.statuses),
+				errors: Object.fromEntries(state.errors),
+				retries: state.retries,
+				backoffSeconds: state.backoffSeconds,
+				bytesSent: state.bytesSent,
+				bytesReceived: state.bytesReceived,
+			};
+			snapshot[endpoint] = metrics;
+		}
+		return snapshot;
+	}
+
+	/**
+	 * Current values in the Prometheus text exposition format
+	 */
+	public toPrometheus(): string {
+		const snapshot = Object.entries(this.snapshot());
+		const lines: string[] = [];
+		const family = (name: string, type: string, help: string, samples: string[]) => {
+			lines.push(`# HELP ${METRIC_PREFIX}_${name} ${help}`);
+			lines.push(`# TYPE ${METRIC_PREFIX}_${name} ${type}`);
+			lines.push(...samples);
+		};
+		const counter = (name: string, help: string, value: (metrics: EndpointMetrics) => number) =>
+			family(
+				name,
+				'counter',
+				help,
+				snapshot.map(
+					([endpoint, metrics]) =>
+						`${METRIC_PREFIX}_${name}${formatLabels({ endpoint })} ${value(metrics)}`,
+				),
+			);
+
+		const duration = `${METRIC_PREFIX}_request_duration_seconds`;
+		family(
+			'request_duration_seconds',
+			'histogram',
+			'Duration of client calls, including retries and backoff',
+			snapshot.flatMap(([endpoint, { latency }]) => [
+				...latency.buckets.map(({ le, count }) => {
+					const bound = le === Number.POSITIVE_INFINITY ? '+Inf' : String(le);
+					return `${duration}_bucket${formatLabels({ endpoint, le: bound })} ${count}`;
+				}),
+				`${duration}_sum${formatLabels({ endpoint })} ${latency.sum}`,
+				`${duration}_count${formatLabels({ endpoint })} ${latency.count}`,
+			]),
+		);
+		family(
+			'responses_total',
+			'counter',
+			'Responses received per attempt, by HTTP status',
+			snapshot.flatMap(([endpoint, { statuses }]) =>
+				Object.entries(statuses).map(
+					([status, count]) =>
+						`${METRIC_PREFIX}_responses_total${formatLabels({ endpoint, status })} ${count}`,
+				),
+			),
+		);
+		family(
+			'errors_total',
+			'counter',
+			'Failed calls, by error class',
+			snapshot.flatMap(([endpoint, { errors }]) =>
+				Object.entries(errors).map(
+					([error, count]) =>
+						`${METRIC_PREFIX}_errors_total${formatLabels({ endpoint, error })} ${count}`,
+				),
+			),
+		);
+		counter('retries_total', 'Retried attempts', (metrics) => metrics.retries);
+		counter(
+			'backoff_seconds_total',
+			'Time spent waiting between attempts',
+			(metrics) => metrics.backoffSeconds,
+		);
+		counter('sent_bytes_total', 'Request body bytes sent', (metrics) => metrics.bytesSent);
+		counter(
+			'received_bytes_total',
+			'Response body bytes received',
+			(metrics) => metrics.bytesReceived,
+		);
+
+		return `${lines.join('\n')}\n`;
+	}
+
+	/**
+	 * Drop all recorded values
+	 */
+	public reset(): void {
+		this.endpoints.clear();
+	}
+
+	private state(endpoint: string): EndpointState {
+		let state = this.endpoints.get(endpoint);
+		if (!state) {
+			state = {
+				calls: 0,
+				bucketCounts: new Array(this.buckets.length + 1).fill(0),
+				latencySum: 0,
+				statuses: new Map(),
+				errors: new Map(),
+				retries: 0,
+				backoffSeconds: 0,
+				bytesSent: 0,
+				bytesReceived: 0,
+			};
+			this.endpoints.set(endpoint, state);
+		}
+		return state;
+	}
+}
@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test';
+import { requestKey, stableStringify } from './normalize';
+
+describe('Request normalization', () => {
+	test('should serialize objects with sorted keys and without undefined values', () => {
+		expect(stableStringify({ b: 1, a: [{ d: null, c: undefined }] })).toBe(
+			'{"a":[{"d":null}],"b":1}',
+		);
+		expect(stableStringify('text')).toBe('"text"');
+	});
+
+	test('should give equal requests the same key', () => {
+		expect(requestKey('POST', '/md', '{"url":"a","f":"fit"}')).toBe(
+			requestKey('POST', '/md', '{ "f": "fit", "url": "a" }'),
+		);
+		expect(requestKey('POST', '/md', '{"url":"a"}', { 'X-Tenant': '1' })).not.toBe(
+			requestKey('POST', '/md', '{"url":"a"}', { 'X-Tenant': '2' }),
+		);
+		expect(requestKey('POST', '/md', 'not json')).toContain('not json');
+	});
+});
@@ -0,0 +1,51 @@
+/**
+ * Request normalization for coalescing and caching keys
+ */
+
+/**
+ * JSON serialization with object keys sorted, so equal requests serialize identically
+ */
+export function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+	}
+
+	if (value !== null && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, item]) => item !== undefined)
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+		return `{${entries.join(',')}}`;
+	}
+
+	return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Key identifying a request by method, path, normalized JSON body and per-call headers
+ */
+export function requestKey(
+	method: string,
+	path: string,
+	body?: string,
+	headers?: Record<string, string>,
+): string {
+	let normalizedBody: string | undefined = body;
+	if (body !== undefined) {
+		try {
+			normalizedBody = stableStringify(JSON.parse(body));
+		} catch {
+			// Not JSON: compare verbatim
+		}
+	}
+
+	const normalizedHeaders = headers
+		? stableStringify(
+				Object.fromEntries(
+					Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+				),
+			)
+		: '';
+
+	return `${method} ${path} ${normalizedBody ?? ''} ${normalizedHeaders}`;
+}
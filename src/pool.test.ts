@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { NetworkError, RequestValidationError } from './errors';
+import { EndpointPool } from './pool';
+
+describe('EndpointPool', () => {
+	const alwaysUp = async () => true;
+
+	test('should spread requests by weight with round-robin', () => {
+		const pool = new EndpointPool(
+			{
+				endpoints: [
+					{ baseUrl: 'http://a:11235', weight: 2 },
+					{ baseUrl: 'http://b:11235/' },
+				],
+			},
+			alwaysUp,
+		);
+
+		const picks = Array.from({ length: 6 }, () => pool.select().baseUrl);
+		expect(picks.filter((url) => url === 'http://a:11235')).toHaveLength(4);
+		expect(picks.filter((url) => url === 'http://b:11235')).toHaveLength(2);
+		expect(picks.slice(0, 3)).toEqual(['http://a:11235', 'http://b:11235', 'http://a:11235']);
+	});
+
+	test('should pick the node with the fewest in-flight requests', () => {
+		const pool = new EndpointPool(
+			{
+				endpoints: [{ baseUrl: 'http://a:11235' }, { baseUrl: 'http://b:11235' }],
+				strategy: 'least-in-flight',
+			},
+			alwaysUp,
+		);
+
+		const first = pool.select();
+		first.inFlight = 3;
+		expect(pool.select().baseUrl).toBe('http://b:11235');
+	});
+
+	test('should skip down and excluded nodes while any other node is left', () => {
+		const pool = new EndpointPool(
+			{
+				endpoints: [{ baseUrl: 'http://a:11235' }, { baseUrl: 'http://b:11235' }],
+				recheckInterval: 60_000,
+			},
+			alwaysUp,
+		);
+		const a = pool.select();
+		const b = pool.select();
+
+		pool.markDown(a, new NetworkError('refused'));
+		expect(pool.select().baseUrl).toBe(b.baseUrl);
+		expect(pool.select().baseUrl).toBe(b.baseUrl);
+		expect(pool.hasAlternative(new Set([b]))).toBe(false);
+		expect(pool.select(new Set([b])).baseUrl).toBe(a.baseUrl);
+
+		const status = pool.status();
+		expect(status[0]?.healthy).toBe(false);
+		expect(status[0]?.downSince).toBeInstanceOf(Date);
+		expect(status[0]?.lastError).toBeInstanceOf(NetworkError);
+	});
+
+	test('should bring nodes back after a successful probe', async () => {
+		let up = false;
+		const pool = new EndpointPool(
+			{ endpoints: [{ baseUrl: 'http://a:11235' }], recheckInterval: 0 },
+			async () => up,
+		);
+		const node = pool.select();
+
+		pool.markDown(node, new NetworkError('refused'));
+		expect(await pool.checkHealth()).toBe(0);
+
+		up = true;
+		pool.select();
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(node.healthy).toBe(true);
+	});
+
+	test('should reject invalid endpoints', () => {
+		expect(() => new EndpointPool({ endpoints: [] }, alwaysUp)).toThrow(RequestValidationError);
+		expect(
+			() => new EndpointPool({ endpoints: [{ baseUrl: 'http://a', weight: 0 }] }, alwaysUp),
+		).toThrow(RequestValidationError);
+	});
+});
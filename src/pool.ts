@@ -0,0 +1,252 @@
+/**
+ * Pool of Crawl4AI servers with weighted selection and health-checked failover
+ */
+
+import { RequestValidationError } from './errors';
+import type { PoolConfig, PoolEndpoint, PoolNodeStatus, PoolStrategy } from './types';
+
+const DEFAULT_RECHECK_INTERVAL = 10000;
+
+/**
+ * A server in the pool
+ *
+ * @internal
+ */
+export interface PoolNode {
+	baseUrl: string;
+	apiToken?: string;
+	weight: number;
+	healthy: boolean;
+	inFlight: number;
+	downSince?: number;
+	lastError?: Error;
+	/** When the last probe started */
+	checkedAt?: number;
+	/** Smooth weighted round-robin counter */
+	currentWeight: number;
+	probing: boolean;
+}
+
+/**
+ * Endpoint pool - picks a node per attempt, tracks in-flight requests and keeps
+ * down nodes out of rotation until a `testConnection()` probe succeeds
+ *
+ * Available as `client.pool` when `pool` is configured.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({
+ *   pool: {
+ *     endpoints: [
+ *       { baseUrl: 'http://crawl-a:11235', apiToken: 'token-a', weight: 2 },
+ *       { baseUrl: 'http://crawl-b:11235', apiToken: 'token-b' }
+ *     ],
+ *     strategy: 'least-in-flight'
+ *   }
+ * });
+ *
+ * console.table(client.pool?.status());
+ * ```
+ */
+export class EndpointPool {
+	private readonly nodes: PoolNode[];
+	private readonly strategy: PoolStrategy;
+	private readonly recheckInterval: number;
+
+	constructor(
+		config: PoolConfig,
+		private readonly probe: (node: PoolNode) => Promise<boolean>,
+	) {
+		if (!config.endpoints?.length) {
+			throw new RequestValidationError(
+				'pool.endpoints must list at least one server',
+				'pool.endpoints',
+			);
+		}
+
+		this.nodes = config.endpoints.map((endpoint) => this.toNode(endpoint));
+		this.strategy = config.strategy ?? 'round-robin';
+		this.recheckInterval = config.recheckInterval ?? DEFAULT_RECHECK_INTERVAL;
+
+		if (this.recheckInterval < 0 || !Number.isFinite(this.recheckInterval)) {
+			throw new RequestValidationError(
+				'pool.recheckInterval must be a non-negative number',
+				'pool.recheckInterval',
+				config.recheckInterval,
+			);
+		}
+	}
+
+	/**
+	 * Snapshot of every node's health and load
+	 */
+	public status(): PoolNodeStatus[] {
+		return this.nodes.map((node) => {
+			const status: PoolNodeStatus = {
+				baseUrl: node.baseUrl,
+				weight: node.weight,
+				healthy: node.healthy,
+				inFlight: node.inFlight,
+			};
+			if (node.downSince !== undefined) {
+				status.downSince = new Date(node.downSince);
+			}
+			if (node.lastError) {
+				status.lastError = node.lastError;
+			}
+			return status;
+		});
+	}
+
+	/**
+	 * Probe every node now and update its health
+	 *
+	 * @returns Number of healthy nodes
+	 */
+	public async checkHealth(): Promise<number> {
+		await Promise.all(this.nodes.map((node) => this.recheck(node)));
+		return this.nodes.filter((node) => node.healthy).length;
+	}
+
+	/**
+	 * Pick the node for the next attempt, avoiding nodes in `exclude` (already failed for this
+	 * call) when any other node is left. Down nodes are only used when no node is healthy.
+	 *
+	 * @internal
+	 */
+	public select(exclude: ReadonlySet<PoolNode> = new Set()): PoolNode {
+		this.recheckDownNodes();
+
+		const fresh = this.nodes.filter((node) => !exclude.has(node));
+		const pool = fresh.length > 0 ? fresh : this.nodes;
+		const healthy = pool.filter((node) => node.healthy);
+		const candidates = healthy.length > 0 ? healthy : pool;
+
+		return this.strategy === 'least-in-flight'
+			? this.leastInFlight(candidates)
+			: this.roundRobin(candidates);
+	}
+
+	/**
+	 * Whether a node other than those in `exclude` is available
+	 *
+	 * @internal
+	 */
+	public hasAlternative(exclude: ReadonlySet<PoolNode>): boolean {
+		return this.nodes.some((node) => !exclude.has(node) && node.healthy);
+	}
+
+	/**
+	 * Take a node out of rotation until a probe succeeds
+	 *
+	 * @internal
+	 */
+	public markDown(node: PoolNode, error: Error): void {
+		if (node.healthy) {
+			node.healthy = false;
+			node.downSince = Date.now();
+		}
+		node.lastError = error;
+	}
+
+	/**
+	 * Put a node back into rotation
+	 *
+	 * @internal
+	 */
+	public markUp(node: PoolNode): void {
+		node.healthy = true;
+		delete node.downSince;
+	}
+
+	private toNode(endpoint: PoolEndpoint): PoolNode {
+		try {
+			new URL(endpoint.baseUrl);
+		} catch {
+			throw new RequestValidationError(
+				`Invalid pool endpoint: ${endpoint.baseUrl}`,
+				'pool.endpoints',
+				endpoint.baseUrl,
+			);
+		}
+
+		const weight = endpoint.weight ?? 1;
+		if (weight <= 0 || !Number.isFinite(weight)) {
+			throw new RequestValidationError(
+				'pool endpoint weight must be a positive number',
+				'pool.endpoints',
+				weight,
+			);
+		}
+
+		return {
+			baseUrl: endpoint.baseUrl.replace(/\/$/, ''),
+			...(endpoint.apiToken !== undefined && { apiToken: endpoint.apiToken }),
+			weight,
+			healthy: true,
+			inFlight: 0,
+			currentWeight: 0,
+			probing: false,
+		};
+	}
+
+	/**
+	 * Smooth weighted round-robin: spreads each node's share evenly over the cycle
+	 */
+	private roundRobin(candidates: PoolNode[]): PoolNode {
+		const total = candidates.reduce((sum, node) => sum + node.weight, 0);
+		let selected = candidates[0] as PoolNode;
+
+		for (const node of candidates) {
+			node.currentWeight += node.weight;
+			if (node.currentWeight > selected.currentWeight) {
+				selected = node;
+			}
+		}
+
+		selected.currentWeight -= total;
+		return selected;
+	}
+
+	private leastInFlight(candidates: PoolNode[]): PoolNode {
+		let selected = candidates[0] as PoolNode;
+		for (const node of candidates) {
+			if (node.inFlight / node.weight < selected.inFlight / selected.weight) {
+				selected = node;
+			}
+		}
+		return selected;
+	}
+
+	/**
+	 * Start background probes for down nodes whose recheck interval has passed
+	 */
+	private recheckDownNodes(): void {
+		const now = Date.now();
+		for (const node of this.nodes) {
+			const since = Math.max(node.downSince ?? 0, node.checkedAt ?? 0);
+			if (!node.healthy && !node.probing && now - since >= this.recheckInterval) {
+				void this.recheck(node);
+			}
+		}
+	}
+
+	private async recheck(node: PoolNode): Promise<void> {
+		if (node.probing) {
+			return;
+		}
+
+		node.probing = true;
+		node.checkedAt = Date.now();
+		try {
+			if (await this.probe(node)) {
+				this.markUp(node);
+			} else if (node.healthy) {
+				node.healthy = false;
+				node.downSince = Date.now();
+			}
+		} finally {
+			node.probing = false;
+		}
+	}
+}
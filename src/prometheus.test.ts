@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { ParseError } from './errors';
+import {
+	findHistogram,
+	findMetric,
+	findSummary,
+	getMetricValue,
+	parsePrometheusText,
+} from './prometheus';
+
+const EXPOSITION = `# HELP http_requests_total Total requests.
+# TYPE http_requests_total counter
+http_requests_total{method="GET",handler="/crawl"} 12
+http_requests_total{method="POST",handler="/crawl"} 3 1700000000000
+# HELP queue_depth Jobs waiting.\\nPer queue.
+# TYPE queue_depth gauge
+queue_depth{queue="default"} 4
+# HELP latency_seconds Request latency.
+# TYPE latency_seconds histogram
+latency_seconds_bucket{handler="/crawl",le="0.5"} 1
+latency_seconds_bucket{handler="/crawl",le="+Inf"} 3
+latency_seconds_bucket{handler="/crawl",le="1"} 2
+latency_seconds_sum{handler="/crawl"} 2.5
+latency_seconds_count{handler="/crawl"} 3
+# TYPE rpc_seconds summary
+rpc_seconds{quantile="0.5"} 0.1
+rpc_seconds{quantile="0.99"} NaN
+rpc_seconds_sum 1.5
+rpc_seconds_count 7
+process_open_fds{path="a\\"b"} 9
+`;
+
+describe('Prometheus parser', () => {
+	const families = parsePrometheusText(EXPOSITION);
+
+	test('should parse families with type, help and labelled samples', () => {
+		expect(families.map((family) => [family.name, family.type])).toEqual([
+			['http_requests_total', 'counter'],
+			['queue_depth', 'gauge'],
+			['latency_seconds', 'histogram'],
+			['rpc_seconds', 'summary'],
+			['process_open_fds', 'untyped'],
+		]);
+		expect(findMetric(families, 'queue_depth')?.help).toBe('Jobs waiting.\nPer queue.');
+		expect(findMetric(families, 'http_requests_total')?.samples[1]).toEqual({
+			name: 'http_requests_total',
+			labels: { method: 'POST', handler: '/crawl' },
+			value: 3,
+			timestamp: 1700000000000,
+		});
+		expect(findMetric(families, 'process_open_fds')?.samples[0]?.labels).toEqual({
+			path: 'a"b',
+		});
+	});
+
+	test('should look up values by name and label subset', () => {
+		expect(getMetricValue(families, 'http_requests_total', { method: 'GET' })).toBe(12);
+		expect(getMetricValue(families, 'queue_depth')).toBe(4);
+		expect(getMetricValue(families, 'queue_depth', { queue: 'missing' })).toBeUndefined();
+	});
+
+	test('should group histogram buckets and summary quantiles', () => {
+		expect(findHistogram(families, 'latency_seconds', { handler: '/crawl' })).toEqual({
+			labels: { handler: '/crawl' },
+			buckets: [
+				{ le: 0.5, count: 1 },
+				{ le: 1, count: 2 },
+				{ le: Number.POSITIVE_INFINITY, count: 3 },
+			],
+			sum: 2.5,
+			count: 3,
+		});
+
+		const summary = findSummary(families, 'rpc_seconds');
+		expect(summary?.quantiles[0]).toEqual({ quantile: 0.5, value: 0.1 });
+		expect(summary?.quantiles[1]?.value).toBeNaN();
+		expect(summary?.count).toBe(7);
+	});
+
+	test('should throw ParseError on malformed lines', () => {
+		expect(() => parsePrometheusText('metric{label="x} 1')).toThrow(ParseError);
+		expect(() => parsePrometheusText('metric abc')).toThrow(ParseError);
+	});
+});
@@ -0,0 +1,315 @@
+/**
+ * Parser and lookup helpers for the Prometheus text exposition format served by /metrics
+ */
+
+import { ParseError } from './errors';
+import type {
+	HistogramSeries,
+	MetricFamily,
+	MetricLabels,
+	MetricSample,
+	MetricType,
+	SummarySeries,
+} from './types';
+
+const METRIC_TYPES: MetricType[] = ['counter', 'gauge', 'histogram', 'summary', 'untyped'];
+const FAMILY_SUFFIXES = ['_bucket', '_sum', '_count', '_total', '_created'];
+
+function unescapeText(value: string): string {
+	return value.replace(/\\(n|\\|")/g, (_, char: string) => (char === 'n' ? '\n' : char));
+}
+
+function parseValue(raw: string): number {
+	switch (raw) {
+		case '+Inf':
+		case 'Inf':
+			return Number.POSITIVE_INFINITY;
+		case '-Inf':
+			return Number.NEGATIVE_INFINITY;
+		case 'NaN':
+			return Number.NaN;
+		default:
+			return raw.trim() === '' ? Number.NaN : Number(raw);
+	}
+}
+
+/**
+ * Parse `{key="value",...}` starting at `start`; returns the labels and the index after `}`
+ */
+function parseLabels(line: string, start: number): { labels: MetricLabels; end: number } {
+	const labels: MetricLabels = {};
+	let index = start + 1;
+
+	while (index < line.length) {
+		while (line[index] === ' ' || line[index] === ',') {
+			index++;
+		}
+		if (line[index] === '}') {
+			return { labels, end: index + 1 };
+		}
+
+		const equals = line.indexOf('=', index);
+		if (equals === -1 || line[equals + 1] !== '"') {
+			break;
+		}
+		const key = line.slice(index, equals).trim();
+
+		let value = '';
+		index = equals + 2;
+		while (index < line.length && line[index] !== '"') {
+			if (line[index] === '\\') {
+				const next = line[index + 1];
+				value += next === 'n' ? '\n' : (next ?? '');
+				index += 2;
+			} else {
+				value += line[index];
+				index++;
+			}
+		}
+		if (index >= line.length) {
+			break;
+		}
+		labels[key] = value;
+		index++;
+	}
+
+	throw new ParseError('Invalid label set in metrics line', line);
+}
+
+function parseSample(line: string): MetricSample {
+	const nameMatch = /^[a-zA-Z_:][a-zA-Z0-9_:]*/.exec(line);
+	if (!nameMatch) {
+		throw new ParseError('Invalid metric name in metrics line', line);
+	}
+
+	const name = nameMatch[0];
+	let labels: MetricLabels = {};
+	let rest = line.slice(name.length);
+
+	if (rest.startsWith('{')) {
+		const parsed = parseLabels(line, name.length);
+		labels = parsed.labels;
+		rest = line.slice(parsed.end);
+	}
+
+	const [rawValue, rawTimestamp] = rest.trim().split(/\s+/);
+	const value = parseValue(rawValue ?? '');
+	if (Number.isNaN(value) && rawValue !== 'NaN') {
+		throw new ParseError(`Invalid value for metric ${name}`, line);
+	}
+
+	const sample: MetricSample = { name, labels, value };
+	if (rawTimestamp !== undefined) {
+		sample.timestamp = Number(rawTimestamp);
+	}
+	return sample;
+}
+
+function labelKey(labels: MetricLabels, omit: string): string {
+	return JSON.stringify(
+		Object.entries(labels)
+			.filter(([key]) => key !== omit)
+			.sort(([a], [b]) => a.localeCompare(b)),
+	);
+}
+
+function withoutLabel(labels: MetricLabels, omit: string): MetricLabels {
+	const result: MetricLabels = {};
+	for (const [key, value] of Object.entries(labels)) {
+		if (key !== omit) {
+			result[key] = value;
+		}
+	}
+	return result;
+}
+
+/**
+ * Group histogram samples into series of cumulative buckets per label set
+ */
+function buildHistograms(family: MetricFamily): HistogramSeries[] {
+	const series = new Map<string, HistogramSeries>();
+	for (const sample of family.samples) {
+		const key = labelKey(sample.labels, 'le');
+		let entry = series.get(key);
+		if (!entry) {
+			entry = { labels: withoutLabel(sample.labels, 'le'), buckets: [] };
+			series.set(key, entry);
+		}
+
+		if (sample.name === `${family.name}_bucket` && sample.labels.le !== undefined) {
+			entry.buckets.push({ le: parseValue(sample.labels.le), count: sample.value });
+		} else if (sample.name === `${family.name}_sum`) {
+			entry.sum = sample.value;
+		} else if (sample.name === `${family.name}_count`) {
+			entry.count = sample.value;
+		}
+	}
+
+	for (const entry of series.values()) {
+		entry.buckets.sort((a, b) => a.le - b.le);
+	}
+	return [...series.values()];
+}
+
+/**
+ * Group summary samples into series of quantiles per label set
+ */
+function buildSummaries(family: MetricFamily): SummarySeries[] {
+	const series = new Map<string, SummarySeries>();
+	for (const sample of family.samples) {
+		const key = labelKey(sample.labels, 'quantile');
+		let entry = series.get(key);
+		if (!entry) {
+			entry = { labels: withoutLabel(sample.labels, 'quantile'), quantiles: [] };
+			series.set(key, entry);
+		}
+
+		if (sample.name === family.name && sample.labels.quantile !== undefined) {
+			entry.quantiles.push({
+				quantile: parseValue(sample.labels.quantile),
+				value: sample.value,
+			});
+		} else if (sample.name === `${family.name}_sum`) {
+			entry.sum = sample.value;
+		} else if (sample.name === `${family.name}_count`) {
+			entry.count = sample.value;
+		}
+	}
+	return [...series.values()];
+}
+
+/**
+ * Parse Prometheus text exposition output into metric families
+ *
+ * @param text - Raw output of the /metrics endpoint
+ * @returns Metric families in the order they appear
+ *
+ * @throws {ParseError} If a line is not valid exposition format
+ *
+ * @example
+ * ```typescript
+ * const families = parsePrometheusText(await client.metrics());
+ * ```
+ */
+export function parsePrometheusText(text: string): MetricFamily[] {
+	const families = new Map<string, MetricFamily>();
+
+	const familyFor = (name: string): MetricFamily => {
+		let family = families.get(name);
+		if (!family) {
+			family = { name, type: 'untyped', samples: [] };
+			families.set(name, family);
+		}
+		return family;
+	};
+
+	for (const rawLine of text.split('\n')) {
+		const line = rawLine.trim();
+		if (!line) {
+			continue;
+		}
+
+		if (line.startsWith('#')) {
+			const match = /^#\s*(HELP|TYPE)\s+(\S+)\s*(.*)$/.exec(line);
+			if (!match) {
+				continue;
+			}
+			const [, keyword, name = '', value = ''] = match;
+			const family = familyFor(name);
+			if (keyword === 'HELP') {
+				family.help = unescapeText(value);
+			} else {
+				const type = value.trim().toLowerCase() as MetricType;
+				family.type = METRIC_TYPES.includes(type) ? type : 'untyped';
+			}
+			continue;
+		}
+
+		const sample = parseSample(line);
+		const suffix = FAMILY_SUFFIXES.find((candidate) => sample.name.endsWith(candidate));
+		const baseName = suffix ? sample.name.slice(0, -suffix.length) : undefined;
+
+		// Attach _bucket/_sum/_count samples to their declared family
+		const family =
+			families.get(sample.name) ??
+			(baseName !== undefined ? families.get(baseName) : undefined) ??
+			familyFor(sample.name);
+		family.samples.push(sample);
+	}
+
+	for (const family of families.values()) {
+		if (family.type === 'histogram') {
+			family.histograms = buildHistograms(family);
+		} else if (family.type === 'summary') {
+			family.summaries = buildSummaries(family);
+		}
+	}
+
+	return [...families.values()].filter((family) => family.samples.length > 0);
+}
+
+/**
+ * Find a metric family by name
+ */
+export function findMetric(families: MetricFamily[], name: string): MetricFamily | undefined {
+	return families.find((family) => family.name === name);
+}
+
+/**
+ * Check whether a sample carries every label in `labels` (extra labels are allowed)
+ */
+function matchesLabels(sample: { labels: MetricLabels }, labels: MetricLabels): boolean {
+	return Object.entries(labels).every(([key, value]) => sample.labels[key] === value);
+}
+
+/**
+ * Find samples by sample name (e.g. `http_requests_total` or `latency_seconds_bucket`)
+ * whose labels include the given label set
+ */
+export function findSamples(
+	families: MetricFamily[],
+	name: string,
+	labels: MetricLabels = {},
+): MetricSample[] {
+	return families.flatMap((family) =>
+		family.samples.filter((sample) => sample.name === name && matchesLabels(sample, labels)),
+	);
+}
+
+/**
+ * Get the value of the first sample matching a name and label set
+ *
+ * @example
+ * ```typescript
+ * const inFlight = getMetricValue(families, 'http_requests_in_progress', { method: 'POST' });
+ * ```
+ */
+export function getMetricValue(
+	families: MetricFamily[],
+	name: string,
+	labels: MetricLabels = {},
+): number | undefined {
+	return findSamples(families, name, labels)[0]?.value;
+}
+
+/**
+ * Find the histogram series of a family whose labels include the given label set
+ */
+export function findHistogram(
+	families: MetricFamily[],
+	name: string,
+	labels: MetricLabels = {},
+): HistogramSeries | undefined {
+	return findMetric(families, name)?.histograms?.find((series) => matchesLabels(series, labels));
+}
+
+/**
+ * Find the summary series of a family whose labels include the given label set
+ */
+export function findSummary(
+	families: MetricFamily[],
+	name: string,
+	labels: MetricLabels = {},
+): SummarySeries | undefined {
+	return findMetric(families, name)?.summaries?.find((series) => matchesLabels(series, labels));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import {
+	browserConfigToPython,
+	crawlerRunConfigToPython,
+	crawlRequestToPython,
+	toPythonLiteral,
+} from './python';
+
+describe('Python config serializer', () => {
+	test('should render Python literals', () => {
+		expect(toPythonLiteral(true)).toBe('True');
+		expect(toPythonLiteral(null)).toBe('None');
+		expect(toPythonLiteral(['a', 1, false])).toBe('["a", 1, False]');
+		expect(toPythonLiteral({ key: 'say "hi"\n' })).toBe('{"key": "say \\"hi\\"\\n"}');
+	});
+
+	test('should map BrowserConfig viewport to keyword arguments', () => {
+		expect(
+			browserConfigToPython({ headless: true, viewport: { width: 1280, height: 720 } }),
+		).toBe(
+			'BrowserConfig(\n    headless=True,\n    viewport_width=1280,\n    viewport_height=720,\n)',
+		);
+		expect(browserConfigToPython({})).toBe('BrowserConfig()');
+	});
+
+	test('should map cache mode and extraction strategies to crawl4ai classes', () => {
+		const code = crawlerRunConfigToPython({
+			cache_mode: 'bypass',
+			extraction_strategy: {
+				type: 'llm',
+				params: { provider: 'openai/gpt-4o-mini', instruction: 'Extract titles' },
+			},
+		});
+
+		expect(code).toContain('cache_mode=CacheMode.BYPASS,');
+		expect(code).toContain(
+			'extraction_strategy=LLMExtractionStrategy(\n        llm_config=LLMConfig(\n            provider="openai/gpt-4o-mini",\n        ),\n        instruction="Extract titles",\n    ),',
+		);
+	});
+
+	test('should build a runnable script with the required imports', () => {
+		const script = crawlRequestToPython({
+			urls: 'https://example.com',
+			crawler_config: {
+				extraction_strategy: {
+					type: 'json_css',
+					params: { schema: { baseSelector: 'h1', fields: [] } },
+				},
+			},
+		});
+
+		expect(script).toContain(
+			'from crawl4ai import AsyncWebCrawler, BrowserConfig, CrawlerRunConfig, JsonCssExtractionStrategy',
+		);
+		expect(script).toContain('urls = ["https://example.com"]');
+		expect(script).toContain('asyncio.run(main())');
+	});
+});
@@ -0,0 +1,227 @@
+/**
+ * Serialize SDK configuration objects into equivalent crawl4ai Python code
+ */
+
+import type {
+	BrowserConfig,
+	CacheMode,
+	ChunkingStrategy,
+	CrawlerRunConfig,
+	CrawlRequest,
+	ExtractionStrategy,
+} from './types';
+
+const INDENT = '    ';
+
+/**
+ * A Python constructor call or enum member, rendered verbatim
+ */
+class PythonExpression {
+	constructor(
+		readonly code: string,
+		readonly imports: string[] = [],
+	) {}
+}
+
+/**
+ * Build a `Name(key=value, ...)` call, skipping undefined keyword arguments
+ */
+function call(name: string, kwargs: Record<string, unknown>): PythonExpression {
+	const entries = Object.entries(kwargs).filter(([, value]) => value !== undefined);
+	const imports = [name, ...entries.flatMap(([, value]) => collectImports(value))];
+
+	if (entries.length === 0) {
+		return new PythonExpression(`${name}()`, imports);
+	}
+
+	const args = entries.map(
+		([key, value]) => `${INDENT}${key}=${indentContinuation(toPythonLiteral(value))},`,
+	);
+	return new PythonExpression(`${name}(\n${args.join('\n')}\n)`, imports);
+}
+
+function indentContinuation(code: string): string {
+	return code.replace(/\n/g, `\n${INDENT}`);
+}
+
+function collectImports(value: unknown): string[] {
+	if (value instanceof PythonExpression) {
+		return value.imports;
+	}
+	if (Array.isArray(value)) {
+		return value.flatMap(collectImports);
+	}
+	if (typeof value === 'object' && value !== null) {
+		return Object.values(value).flatMap(collectImports);
+	}
+	return [];
+}
+
+/**
+ * Render a JSON-compatible value as a Python literal
+ */
+export function toPythonLiteral(value: unknown): string {
+	if (value instanceof PythonExpression) {
+		return value.code;
+	}
+	if (value === null || value === undefined) {
+		return 'None';
+	}
+	if (typeof value === 'boolean') {
+		return value ? 'True' : 'False';
+	}
+	if (typeof value === 'number') {
+		if (Number.isNaN(value)) {
+			return "float('nan')";
+		}
+		if (!Number.isFinite(value)) {
+			return value > 0 ? "float('inf')" : "float('-inf')";
+		}
+		return String(value);
+	}
+	if (typeof value === 'string') {
+		// JSON string escapes are valid Python string escapes
+		return JSON.stringify(value);
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(toPythonLiteral).join(', ')}]`;
+	}
+	if (typeof value === 'object') {
+		const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+		return `{${entries.map(([key, item]) => `${JSON.stringify(key)}: ${toPythonLiteral(item)}`).join(', ')}}`;
+	}
+	return JSON.stringify(String(value));
+}
+
+function cacheModeExpression(mode: CacheMode): PythonExpression {
+	return new PythonExpression(`CacheMode.${mode.toUpperCase()}`, ['CacheMode']);
+}
+
+function extractionStrategyExpression(strategy: ExtractionStrategy): PythonExpression {
+	switch (strategy.type) {
+		case 'json_css':
+			return call('JsonCssExtractionStrategy', { schema: strategy.params.schema });
+		case 'llm': {
+			const { provider, api_token, api_key, base_url, ...rest } = strategy.params;
+			return call('LLMExtractionStrategy', {
+				llm_config: call('LLMConfig', {
+					provider,
+					api_token: api_token ?? api_key,
+					base_url,
+				}),
+				...rest,
+			});
+		}
+		case 'cosine':
+			return call('CosineStrategy', { ...strategy.params });
+	}
+}
+
+function chunkingStrategyExpression(
+	strategy: ChunkingStrategy,
+): PythonExpression | ChunkingStrategy {
+	switch (strategy.type) {
+		case 'regex':
+			return call('RegexChunking', { ...strategy.params });
+		case 'nltk':
+			return call('NlpSentenceChunking', { ...strategy.params });
+		default:
+			// No direct Python class - pass the serialized form the server accepts
+			return strategy;
+	}
+}
+
+function browserConfigExpression(config: BrowserConfig): PythonExpression {
+	const { viewport, ...rest } = config;
+	return call('BrowserConfig', {
+		...rest,
+		viewport_width: viewport?.width,
+		viewport_height: viewport?.height,
+	});
+}
+
+function crawlerRunConfigExpression(config: CrawlerRunConfig): PythonExpression {
+	const { cache_mode, extraction_strategy, chunking_strategy, extra, ...rest } = config;
+	return call('CrawlerRunConfig', {
+		...rest,
+		cache_mode: cache_mode && cacheModeExpression(cache_mode),
+		extraction_strategy:
+			extraction_strategy && extractionStrategyExpression(extraction_strategy),
+		chunking_strategy: chunking_strategy && chunkingStrategyExpression(chunking_strategy),
+		// Extra settings become additional keyword arguments
+		...extra,
+	});
+}
+
+function importLine(expressions: PythonExpression[], always: string[] = []): string {
+	const names = new Set([...always, ...expressions.flatMap((expression) => expression.imports)]);
+	return `from crawl4ai import ${[...names].sort().join(', ')}`;
+}
+
+/**
+ * Convert a BrowserConfig into an equivalent `BrowserConfig(...)` Python expression
+ *
+ * @example
+ * ```typescript
+ * browserConfigToPython({ headless: true, viewport: { width: 1280, height: 720 } });
+ * // BrowserConfig(
+ * //     headless=True,
+ * //     viewport_width=1280,
+ * //     viewport_height=720,
+ * // )
+ * ```
+ */
+export function browserConfigToPython(config: BrowserConfig): string {
+	return browserConfigExpression(config).code;
+}
+
+/**
+ * Convert a CrawlerRunConfig into an equivalent `CrawlerRunConfig(...)` Python expression.
+ * Cache modes and extraction/chunking strategies map to their crawl4ai classes; entries in
+ * `extra` are emitted as additional keyword arguments.
+ *
+ * @example
+ * ```typescript
+ * crawlerRunConfigToPython({ cache_mode: 'bypass', word_count_threshold: 10 });
+ * // CrawlerRunConfig(
+ * //     word_count_threshold=10,
+ * //     cache_mode=CacheMode.BYPASS,
+ * // )
+ * ```
+ */
+export function crawlerRunConfigToPython(config: CrawlerRunConfig): string {
+	return crawlerRunConfigExpression(config).code;
+}
+
+/**
+ * Convert a full CrawlRequest into a runnable Python script using AsyncWebCrawler,
+ * including the imports it needs
+ */
+export function crawlRequestToPython(request: CrawlRequest): string {
+	const urls = Array.isArray(request.urls) ? request.urls : [request.urls];
+	const browser = browserConfigExpression(request.browser_config ?? {});
+	const crawler = crawlerRunConfigExpression(request.crawler_config ?? {});
+
+	return [
+		'import asyncio',
+		'',
+		importLine([browser, crawler], ['AsyncWebCrawler']),
+		'',
+		`browser_config = ${browser.code}`,
+		'',
+		`crawler_config = ${crawler.code}`,
+		'',
+		`urls = ${toPythonLiteral(urls)}`,
+		'',
+		'',
+		'async def main():',
+		`${INDENT}async with AsyncWebCrawler(config=browser_config) as crawler:`,
+		`${INDENT}${INDENT}results = await crawler.arun_many(urls=urls, config=crawler_config)`,
+		`${INDENT}${INDENT}for result in results:`,
+		`${INDENT}${INDENT}${INDENT}print(result.url, result.success, result.error_message)`,
+		'',
+		'',
+		'asyncio.run(main())',
+		'',
+	].join('\n');
+}
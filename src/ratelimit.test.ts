@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { AbortedError, DeadlineExceededError, RequestValidationError } from './errors';
+import { RateLimiter } from './ratelimit';
+
+describe('RateLimiter', () => {
+	test('should allow a burst and then pace requests at the configured rate', async () => {
+		const limiter = new RateLimiter({ requestsPerSecond: 50, burst: 2 });
+		const started = Date.now();
+
+		await limiter.acquire();
+		await limiter.acquire();
+		expect(Date.now() - started).toBeLessThan(10);
+
+		const third = limiter.acquire();
+		expect(limiter.status().queueLength).toBe(1);
+		expect(limiter.status().waitTime).toBeGreaterThan(0);
+		await third;
+
+		expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+		expect(limiter.status().queueLength).toBe(0);
+		expect(limiter.status().totalWaitTime).toBeGreaterThan(0);
+	});
+
+	test('should queue until the reset time once the server reports no requests left', async () => {
+		const limiter = new RateLimiter({});
+		limiter.observe(200, {
+			'x-ratelimit-limit': '100',
+			'x-ratelimit-remaining': '1',
+			'x-ratelimit-reset': '0.05',
+		});
+
+		await limiter.acquire();
+		expect(limiter.status()).toMatchObject({ limit: 100, remaining: 0 });
+
+		const started = Date.now();
+		await limiter.acquire();
+		expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+	});
+
+	test('should back off after a 429 with Retry-After', () => {
+		const limiter = new RateLimiter({});
+		limiter.observe(429, { 'retry-after': '2' });
+		expect(limiter.status().waitTime).toBeGreaterThan(1900);
+	});
+
+	test('should ignore headers when not adaptive', () => {
+		const limiter = new RateLimiter({ adaptive: false });
+		limiter.observe(429, { 'retry-after': '2' });
+		expect(limiter.status().waitTime).toBe(0);
+	});
+
+	test('should drop aborted callers from the queue', async () => {
+		const limiter = new RateLimiter({});
+		limiter.observe(429, { 'retry-after': '60' });
+		const controller = new AbortController();
+
+		const waiting = limiter.acquire(controller.signal);
+		expect(limiter.status().queueLength).toBe(1);
+		controller.abort();
+
+		await expect(waiting).rejects.toThrow(AbortedError);
+		expect(limiter.status().queueLength).toBe(0);
+	});
+
+	test('should reject callers whose wait would outlast their budget', async () => {
+		const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 });
+		limiter.observe(429, { 'retry-after': '3' });
+
+		const started = Date.now();
+		await expect(limiter.acquire(undefined, 500)).rejects.toThrow(DeadlineExceededError);
+		expect(Date.now() - started).toBeLessThan(50);
+		expect(limiter.status().queueLength).toBe(0);
+	});
+
+	test('should drop queued callers once their budget runs out', async () => {
+		const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 1 });
+		await limiter.acquire();
+
+		// Next slot in ~100ms: the first caller fits, the second would need ~200ms
+		const first = limiter.acquire(undefined, 150);
+		const second = limiter.acquire(undefined, 150);
+		expect(limiter.status().queueLength).toBe(2);
+
+		await expect(second).rejects.toThrow(DeadlineExceededError);
+		await first;
+		expect(limiter.status().queueLength).toBe(0);
+	});
+
+	test('should reject invalid settings', () => {
+		expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(RequestValidationError);
+		expect(() => new RateLimiter({ burst: 0.5 })).toThrow(RequestValidationError);
+	});
+});
@@ -0,0 +1,296 @@
+/**
+ * Client-side rate limiter: a token bucket that also follows the server's X-RateLimit headers
+ */
+
+import {
+	AbortedError,
+	DeadlineExceededError,
+	parseRetryAfter,
+	RequestValidationError,
+} from './errors';
+import type { RateLimitConfig, RateLimiterStatus } from './types';
+
+const RATE_LIMIT_STATUS = 429;
+const CLIENT_ERROR_MIN = 400;
+// Reset values below this are seconds from now rather than a Unix timestamp
+const MIN_EPOCH_SECONDS = 1_000_000_000;
+
+interface Waiter {
+	resolve(): void;
+	reject(error: Error): void;
+	queuedAt: number;
+	signal?: AbortSignal | undefined;
+	onAbort?: () => void;
+	/** Latest time the caller may still be released */
+	expiresAt?: number;
+	budget?: number;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Rate limiter - every API call attempt takes a slot before it is sent; when none is
+ * available the call is queued (FIFO) until one frees up
+ *
+ * Available as `client.rateLimiter` when `rateLimit` is configured.
+ *
+ * @example
+ * ```typescript
+ * const client = new Crawl4AI({
+ *   baseUrl: 'http://localhost:11235',
+ *   rateLimit: { requestsPerSecond: 5, burst: 10 }
+ * });
+ *
+ * const { queueLength, waitTime } = client.rateLimiter!.status();
+ * ```
+ */
+export class RateLimiter {
+	private tokens: number;
+	private updatedAt = Date.now();
+	private blockedUntil = 0;
+	private limit: number | undefined;
+	private remaining: number | undefined;
+	private resetAt: number | undefined;
+	private totalWaitTime = 0;
+	private readonly queue: Waiter[] = [];
+	private timer: ReturnType<typeof setTimeout> | undefined;
+	private readonly capacity: number;
+
+	constructor(private readonly config: RateLimitConfig) {
+		const { requestsPerSecond, burst } = config;
+		if (
+			requestsPerSecond !== undefined &&
+			(requestsPerSecond <= 0 || !Number.isFinite(requestsPerSecond))
+		) {
+			throw new RequestValidationError(
+				'rateLimit.requestsPerSecond must be a positive number',
+				'rateLimit.requestsPerSecond',
+				requestsPerSecond,
+			);
+		}
+		if (burst !== undefined && (burst < 1 || !Number.isFinite(burst))) {
+			throw new RequestValidationError(
+				'rateLimit.burst must be at least 1',
+				'rateLimit.burst',
+				burst,
+			);
+		}
+
+		this.capacity = burst ?? Math.max(1, requestsPerSecond ?? 1);
+		this.tokens = this.capacity;
+	}
+
+	/**
+	 * Snapshot for monitoring
+	 */
+	public status(): RateLimiterStatus {
+		const status: RateLimiterStatus = {
+			queueLength: this.queue.length,
+			waitTime: this.waitTime(Date.now()),
+			totalWaitTime: this.totalWaitTime,
+		};
+		if (this.limit !== undefined) {
+			status.limit = this.limit;
+		}
+		if (this.remaining !== undefined) {
+			status.remaining = this.remaining;
+		}
+		if (this.resetAt !== undefined) {
+			status.resetAt = new Date(this.resetAt);
+		}
+		return status;
+	}
+
+	/**
+	 * Wait for a slot
+	 *
+	 * @param signal - Leave the queue when aborted
+	 * @param budget - Longest wait in ms the caller can afford
+	 * @throws {AbortedError} If the signal aborts while queued
+	 * @throws {DeadlineExceededError} As soon as the wait would outlast `budget`
+	 */
+	public acquire(signal?: AbortSignal, budget?: number): Promise<void> {
+		if (signal?.aborted) {
+			return Promise.reject(new AbortedError(undefined, signal.reason));
+		}
+
+		const now = Date.now();
+		const wait = this.waitTime(now);
+		if (this.queue.length === 0 && wait === 0) {
+			this.take(now);
+			return Promise.resolve();
+		}
+		if (budget !== undefined && wait > budget) {
+			return Promise.reject(new DeadlineExceededError(budget));
+		}
+
+		return new Promise<void>((resolve, reject) => {
+			const waiter: Waiter = { resolve, reject, queuedAt: now, signal };
+			if (signal) {
+				waiter.onAbort = () =>
+					this.drop(waiter, new AbortedError(undefined, signal.reason));
+				signal.addEventListener('abort', waiter.onAbort, { once: true });
+			}
+			if (budget !== undefined) {
+				waiter.budget = budget;
+				waiter.expiresAt = now + budget;
+				waiter.timer = setTimeout(
+					() => this.drop(waiter, new DeadlineExceededError(budget)),
+					budget,
+				);
+			}
+			this.queue.push(waiter);
+			this.schedule();
+		});
+	}
+
+	/**
+	 * Adapt to a server response: X-RateLimit headers on success, Retry-After on 429
+	 */
+	public observe(status: number, headers: Record<string, string>): void {
+		if (this.config.adaptive === false) {
+			return;
+		}
+
+		const now = Date.now();
+		if (status === RATE_LIMIT_STATUS) {
+			const retryAfter = parseRetryAfter(headers['retry-after'], now);
+			const until =
+				retryAfter !== undefined
+					? now + retryAfter * 1000
+					: this.parseReset(headers['x-ratelimit-reset'], now);
+			if (until !== undefined) {
+				this.blockedUntil = Math.max(this.blockedUntil, until);
+			}
+		} else if (status < CLIENT_ERROR_MIN) {
+			const limit = this.parseCount(headers['x-ratelimit-limit']);
+			const remaining = this.parseCount(headers['x-ratelimit-remaining']);
+			const resetAt = this.parseReset(headers['x-ratelimit-reset'], now);
+
+			if (limit !== undefined) {
+				this.limit = limit;
+			}
+			if (resetAt !== undefined) {
+				this.resetAt = resetAt;
+			}
+			if (remaining !== undefined) {
+				this.remaining = remaining;
+				this.blockIfExhausted(now);
+			}
+		}
+
+		this.schedule();
+	}
+
+	private parseCount(value: string | undefined): number | undefined {
+		const count = value !== undefined ? parseInt(value, 10) : Number.NaN;
+		return Number.isNaN(count) ? undefined : count;
+	}
+
+	private parseReset(value: string | undefined, now: number): number | undefined {
+		const reset = value !== undefined ? Number(value) : Number.NaN;
+		if (Number.isNaN(reset)) {
+			return undefined;
+		}
+		return reset < MIN_EPOCH_SECONDS ? now + reset * 1000 : reset * 1000;
+	}
+
+	/**
+	 * Hold requests until the server window resets once it has no requests left
+	 */
+	private blockIfExhausted(now: number): void {
+		if (this.remaining !== undefined && this.remaining <= 0 && (this.resetAt ?? 0) > now) {
+			this.blockedUntil = Math.max(this.blockedUntil, this.resetAt ?? 0);
+		}
+	}
+
+	/**
+	 * Milliseconds until a request may be sent
+	 */
+	private waitTime(now: number): number {
+		if (this.resetAt !== undefined && now >= this.resetAt) {
+			// The server window rolled over; its counts no longer apply
+			this.remaining = undefined;
+			this.resetAt = undefined;
+		}
+
+		if (this.blockedUntil > now) {
+			return this.blockedUntil - now;
+		}
+
+		const rate = this.config.requestsPerSecond;
+		if (rate === undefined) {
+			return 0;
+		}
+
+		this.refill(now, rate);
+		return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / rate) * 1000);
+	}
+
+	private refill(now: number, rate: number): void {
+		this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * rate);
+		this.updatedAt = now;
+	}
+
+	private take(now: number): void {
+		if (this.config.requestsPerSecond !== undefined) {
+			this.tokens -= 1;
+		}
+		if (this.remaining !== undefined) {
+			this.remaining -= 1;
+			this.blockIfExhausted(now);
+		}
+	}
+
+	/**
+	 * Release queued requests that may go now and arm a timer for the rest
+	 */
+	private schedule(): void {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+
+		while (this.queue.length > 0) {
+			const now = Date.now();
+			const wait = this.waitTime(now);
+			if (wait > 0) {
+				this.dropExpiring(now + wait);
+				if (this.queue.length > 0) {
+					this.timer = setTimeout(() => this.schedule(), wait);
+				}
+				return;
+			}
+
+			const waiter = this.queue.shift() as Waiter;
+			this.release(waiter);
+			this.take(now);
+			this.totalWaitTime += now - waiter.queuedAt;
+			waiter.resolve();
+		}
+	}
+
+	/**
+	 * Reject waiters whose budget ends before `releaseAt`, the earliest any waiter can go
+	 */
+	private dropExpiring(releaseAt: number): void {
+		for (const waiter of [...this.queue]) {
+			if (waiter.expiresAt !== undefined && waiter.expiresAt < releaseAt) {
+				this.drop(waiter, new DeadlineExceededError(waiter.budget ?? 0));
+			}
+		}
+	}
+
+	private drop(waiter: Waiter, error: Error): void {
+		const index = this.queue.indexOf(waiter);
+		if (index !== -1) {
+			this.queue.splice(index, 1);
+			this.release(waiter);
+			waiter.reject(error);
+		}
+	}
+
+	private release(waiter: Waiter): void {
+		if (waiter.onAbort) {
+			waiter.signal?.removeEventListener('abort', waiter.onAbort);
+		}
+		clearTimeout(waiter.timer);
+	}
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import {
+	AbortedError,
+	createHttpError,
+	NetworkError,
+	ParseError,
+	parseRetryAfter,
+	RateLimitError,
+	RequestValidationError,
+	ServerError,
+} from './errors';
+import {
+	computeBackoff,
+	isIdempotentEndpoint,
+	isRetryableError,
+	RetryBudget,
+	validateRetryPolicy,
+} from './retry';
+
+describe('Retry policy', () => {
+	test('should grow exponentially and cap at maxDelay', () => {
+		expect(computeBackoff({}, 0, 100)).toBe(100);
+		expect(computeBackoff({}, 3, 100)).toBe(800);
+		expect(computeBackoff({ multiplier: 3 }, 2, 100)).toBe(900);
+		expect(computeBackoff({ maxDelay: 250 }, 3, 100)).toBe(250);
+		expect(computeBackoff({ backoff: (attempt) => attempt * 10, maxDelay: 15 }, 3, 0)).toBe(15);
+	});
+
+	test('should apply full and equal jitter within the capped range', () => {
+		expect(computeBackoff({ backoff: 'full-jitter' }, 2, 100, () => 0.5)).toBe(200);
+		expect(computeBackoff({ backoff: 'full-jitter' }, 2, 100, () => 0)).toBe(0);
+		expect(computeBackoff({ backoff: 'equal-jitter' }, 2, 100, () => 0)).toBe(200);
+		expect(computeBackoff({ backoff: 'equal-jitter', maxDelay: 100 }, 5, 100, () => 0.5)).toBe(
+			75,
+		);
+	});
+
+	test('should classify errors by default and by explicit lists', () => {
+		expect(isRetryableError(new ServerError('boom', 503), {})).toBe(true);
+		expect(isRetryableError(new RateLimitError('slow down'), {})).toBe(true);
+		expect(isRetryableError(createHttpError(404, 'Not Found'), {})).toBe(false);
+		expect(isRetryableError(new AbortedError(), {})).toBe(false);
+		expect(isRetryableError(new ParseError('bad JSON', '{'), {})).toBe(false);
+
+		const policy = { retryOn: [NetworkError], retryStatuses: [502] };
+		expect(isRetryableError(new NetworkError('reset'), policy)).toBe(true);
+		expect(isRetryableError(new ServerError('bad gateway', 502), policy)).toBe(true);
+		expect(isRetryableError(new ServerError('unavailable', 503), policy)).toBe(false);
+		expect(isRetryableError(new AbortedError(), { retryOn: [Error] })).toBe(false);
+	});
+
+	test('should know which endpoints are idempotent', () => {
+		expect(isIdempotentEndpoint('/crawl')).toBe(true);
+		expect(isIdempotentEndpoint('/execute_js')).toBe(false);
+		expect(isIdempotentEndpoint('/unknown')).toBe(true);
+	});
+
+	test('should spend and refill the retry budget', () => {
+		let now = 0;
+		const budget = new RetryBudget({ maxRetries: 2, refillPerSecond: 1 }, () => now);
+
+		expect(budget.tryAcquire()).toBe(true);
+		expect(budget.tryAcquire()).toBe(true);
+		expect(budget.tryAcquire()).toBe(false);
+
+		now = 1500;
+		expect(budget.available()).toBe(1);
+		now = 10_000;
+		expect(budget.available()).toBe(2);
+	});
+
+	test('should reject out-of-range settings', () => {
+		expect(() => validateRetryPolicy({ retries: 1.5 })).toThrow(RequestValidationError);
+		expect(() => validateRetryPolicy({ multiplier: 0.5 })).toThrow(RequestValidationError);
+		expect(() =>
+			validateRetryPolicy({ budget: { maxRetries: -1, refillPerSecond: 1 } }),
+		).toThrow(RequestValidationError);
+		expect(() => validateRetryPolicy({ maxDelay: 0, backoff: 'full-jitter' })).not.toThrow();
+	});
+});
+
+describe('Retry-After parsing', () => {
+	test('should accept delta-seconds and HTTP-dates', () => {
+		const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+		expect(parseRetryAfter('120', now)).toBe(120);
+		expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30);
+		expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+		expect(parseRetryAfter('soon', now)).toBeUndefined();
+		expect(parseRetryAfter(undefined, now)).toBeUndefined();
+	});
+
+	test('should set retryAfter on RateLimitError from an HTTP-date', () => {
+		const date = new Date(Date.now() + 60_000).toUTCString();
+		const error = createHttpError(429, 'Too Many Requests', undefined, undefined, {
+			'retry-after': date,
+		});
+
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect((error as RateLimitError).retryAfter).toBeGreaterThan(55);
+		expect((error as RateLimitError).retryAfter).toBeLessThanOrEqual(60);
+	});
+});
@@ -0,0 +1,203 @@
+/**
+ * Retry policy helpers: backoff with jitter, retryable error classification and retry budgets
+ */
+
+import {
+	AbortedError,
+	Crawl4AIError,
+	FixtureMissError,
+	NetworkError,
+	ParseError,
+	RequestValidationError,
+} from './errors';
+import type { RetryBudgetConfig, RetryPolicy } from './types';
+
+export const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+const CLIENT_ERROR_MIN = 400;
+const CLIENT_ERROR_MAX = 500;
+const RATE_LIMIT_STATUS = 429;
+const SERVER_ERROR_MIN = 500;
+
+/**
+ * Whether replaying a request to an endpoint is safe after an ambiguous failure
+ * (the request may or may not have reached the server). Unlisted endpoints are idempotent.
+ */
+const ENDPOINT_IDEMPOTENCY: Record<string, boolean> = {
+	'/crawl': true,
+	'/crawl/stream': true,
+	'/md': true,
+	'/html': true,
+	'/screenshot': true,
+	'/pdf': true,
+	'/llm': true,
+	'/ask': true,
+	'/token': true,
+	'/config/dump': true,
+	// Scripts may have side effects on the target site
+	'/execute_js': false,
+	// JSON-RPC tool calls may have side effects
+	'/mcp/messages': false,
+};
+
+/**
+ * Look up the idempotency setting of an endpoint
+ */
+export function isIdempotentEndpoint(endpoint: string): boolean {
+	return ENDPOINT_IDEMPOTENCY[endpoint] ?? true;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), capped at `maxDelay`
+ */
+export function computeBackoff(
+	policy: RetryPolicy,
+	attempt: number,
+	baseDelay: number,
+	random: () => number = Math.random,
+): number {
+	const maxDelay = policy.maxDelay ?? Number.POSITIVE_INFINITY;
+	const backoff = policy.backoff ?? 'exponential';
+
+	if (typeof backoff === 'function') {
+		return Math.min(Math.max(0, backoff(attempt, baseDelay)), maxDelay);
+	}
+
+	const exponential = Math.min(
+		baseDelay * (policy.multiplier ?? DEFAULT_BACKOFF_MULTIPLIER) ** attempt,
+		maxDelay,
+	);
+
+	switch (backoff) {
+		case 'full-jitter':
+			return random() * exponential;
+		case 'equal-jitter':
+			return exponential / 2 + random() * (exponential / 2);
+		default:
+			return exponential;
+	}
+}
+
+/**
+ * Classify an error as retryable under a policy.
+ *
+ * Cancellations and unparseable responses are never retried. Without `retryOn`/`retryStatuses`
+ * every other error is retryable except 4xx responses other than 429. With either set, an error
+ * must match one of them.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+	if (
+		error instanceof AbortedError ||
+		error instanceof FixtureMissError ||
+		error instanceof ParseError
+	) {
+		return false;
+	}
+
+	if (policy.retryOn === undefined && policy.retryStatuses === undefined) {
+		return !(
+			error instanceof Crawl4AIError &&
+			error.status &&
+			error.status >= CLIENT_ERROR_MIN &&
+			error.status < CLIENT_ERROR_MAX &&
+			error.status !== RATE_LIMIT_STATUS
+		);
+	}
+
+	const classMatch = policy.retryOn?.some((errorClass) => error instanceof errorClass) ?? false;
+	const statusMatch =
+		error instanceof Crawl4AIError &&
+		error.status !== undefined &&
+		(policy.retryStatuses?.includes(error.status) ?? false);
+	return classMatch || statusMatch;
+}
+
+/**
+ * Whether an error says the server itself is unhealthy: unreachable or answering 5xx
+ */
+export function isServerFailure(error: Error): boolean {
+	if (error instanceof NetworkError) {
+		return true;
+	}
+	return (
+		error instanceof Crawl4AIError &&
+		error.status !== undefined &&
+		error.status >= SERVER_ERROR_MIN
+	);
+}
+
+/**
+ * Token bucket limiting how many retries a client may issue over time, so a struggling
+ * server is not multiplied by every caller's retry loop
+ */
+export class RetryBudget {
+	private tokens: number;
+	private updatedAt: number;
+
+	constructor(
+		private readonly config: RetryBudgetConfig,
+		private readonly now: () => number = Date.now,
+	) {
+		this.tokens = config.maxRetries;
+		this.updatedAt = now();
+	}
+
+	/**
+	 * Spend one retry if available
+	 */
+	public tryAcquire(): boolean {
+		this.refill();
+		if (this.tokens < 1) {
+			return false;
+		}
+		this.tokens -= 1;
+		return true;
+	}
+
+	/**
+	 * Retries currently available
+	 */
+	public available(): number {
+		this.refill();
+		return Math.floor(this.tokens);
+	}
+
+	private refill(): void {
+		const now = this.now();
+		const elapsedSeconds = (now - this.updatedAt) / 1000;
+		this.updatedAt = now;
+		this.tokens = Math.min(
+			this.config.maxRetries,
+			this.tokens + elapsedSeconds * this.config.refillPerSecond,
+		);
+	}
+}
+
+/**
+ * Validate numeric retry policy settings
+ *
+ * @throws {RequestValidationError} If a setting is out of range
+ */
+export function validateRetryPolicy(policy: RetryPolicy): void {
+	if (policy.retries !== undefined && (policy.retries < 0 || !Number.isInteger(policy.retries))) {
+		throw new RequestValidationError(
+			'retryPolicy.retries must be a non-negative integer',
+			'retryPolicy.retries',
+			policy.retries,
+		);
+	}
+
+	const minimums: Array<[string, number | undefined, number]> = [
+		['retryPolicy.baseDelay', policy.baseDelay, 0],
+		['retryPolicy.maxDelay', policy.maxDelay, 0],
+		['retryPolicy.multiplier', policy.multiplier, 1],
+		['retryPolicy.budget.maxRetries', policy.budget?.maxRetries, 0],
+		['retryPolicy.budget.refillPerSecond', policy.budget?.refillPerSecond, 0],
+	];
+
+	for (const [field, value, minimum] of minimums) {
+		if (value !== undefined && (value < minimum || Number.isNaN(value))) {
+			throw new RequestValidationError(`${field} must be at least ${minimum}`, field, value);
+		}
+	}
+}
@@ -3,37 +3,120 @@
  * A comprehensive SDK for interacting with Crawl4AI REST API
  */
 
+import { crawlMany } from './batch';
+import { cacheReads, cacheWrites, isCacheable, isExpired, MemoryCacheStore } from './cache';
+import { CircuitBreaker } from './circuit';
 import {
+	AbortedError,
+	AuthError,
 	Crawl4AIError,
 	createHttpError,
+	DeadlineExceededError,
 	NetworkError,
+	ParseError,
 	RateLimitError,
 	RequestValidationError,
 	TimeoutError,
 } from './errors';
+import { consoleLogger } from './logger';
+import { McpClient } from './mcp';
+import { ClientMetrics } from './metrics';
+import { requestKey, stableStringify } from './normalize';
+import { EndpointPool, type PoolNode } from './pool';
+import { parsePrometheusText } from './prometheus';
+import { RateLimiter } from './ratelimit';
+import { createRedactor } from './redact';
+import {
+	computeBackoff,
+	isIdempotentEndpoint,
+	isRetryableError,
+	isServerFailure,
+	RetryBudget,
+	validateRetryPolicy,
+} from './retry';
+import { detachableSpan, recordSpanError, startRequestSpan, traceparent } from './tracing';
+import { fetchTransport } from './transport';
 import type {
 	AskRequest,
 	AskResponse,
+	AskResult,
+	BinaryResponse,
+	CacheMode,
+	CacheStore,
+	ConfigDumpRequest,
+	ConfigDumpResponse,
 	ContextType,
+	Crawl4AIAuth,
 	Crawl4AIConfig,
+	CrawlManyOptions,
+	CrawlManyReport,
 	CrawlRequest,
 	CrawlResult,
 	ExecuteJsRequest,
 	HealthResponse,
 	HtmlRequest,
+	LogFields,
+	Logger,
+	LogLevel,
 	MarkdownRequest,
+	MetricFamily,
+	Middleware,
+	MiddlewareRequest,
+	MiddlewareResponse,
+	PdfRequest,
 	RequestConfig,
+	RequestOptions,
+	ResponseIssue,
+	ResponseValidationMode,
+	RetryPolicy,
+	ScreenshotRequest,
+	ServerFileResponse,
+	Span,
+	TokenRequest,
+	TokenResponse,
+	Transport,
+	TransportResponse,
 } from './types';
+import { validateResponse } from './validate';
 
 // Constants
 const DEFAULT_TIMEOUT = 300000; // 5 minutes
 const DEFAULT_RETRIES = 3;
 const DEFAULT_RETRY_DELAY = 1000;
-const RETRY_BACKOFF_MULTIPLIER = 2;
 const HEALTH_CHECK_TIMEOUT = 5000;
 const CLIENT_ERROR_MIN = 400;
-const CLIENT_ERROR_MAX = 500;
-const RATE_LIMIT_STATUS = 429;
+const SCREENSHOT_MIME_TYPE = 'image/png';
+const PDF_MIME_TYPE = 'application/pdf';
+const CHARS_PER_TOKEN = 4;
+const COALESCED_ENDPOINTS = new Set(['/md', '/html', '/crawl', '/llm']);
+const CACHED_ENDPOINTS = new Set(['/crawl', '/md', '/html', '/execute_js']);
+const DEFAULT_CACHE_TTL = 300000; // 5 minutes
+const RESPONSE_EXCERPT_LENGTH = 200;
+const CONTEXT_SEPARATOR = '\n\n';
+
+/** Config keys that stay optional after defaults are applied */
+type OptionalConfigKey =
+	| 'auth'
+	| 'fetch'
+	| 'transport'
+	| 'deadline'
+	| 'circuitBreaker'
+	| 'pool'
+	| 'rateLimit'
+	| 'cache'
+	| 'logger'
+	| 'redact'
+	| 'tracer'
+	| 'clientMetrics'
+	| 'validateResponses';
+type ResolvedConfig = Required<Omit<Crawl4AIConfig, OptionalConfigKey>> &
+	Pick<Crawl4AIConfig, OptionalConfigKey>;
+
+/** An in-flight request shared by coalesced calls, with the status it resolved with */
+interface SharedRequest {
+	promise: Promise<unknown>;
+	status?: number;
+}
 
 // Type Guards
 interface ApiArrayResponse<T> {
@@ -41,6 +124,12 @@ interface ApiArrayResponse<T> {
 	result?: T;
 }
 
+interface BinaryApiResponse {
+	screenshot?: string;
+	pdf?: string;
+	path?: string;
+}
+
 /**
  * Crawl4AI SDK Client - Main class for interacting with Crawl4AI REST API
  *
@@ -71,7 +160,93 @@ interface ApiArrayResponse<T> {
  * ```
  */
 export class Crawl4AI {
-	private config: Required<Crawl4AIConfig>;
+	private config: ResolvedConfig;
+	private transport: Transport;
+	private tokenRefresh: Promise<void> | undefined;
+	private retryBudget: RetryBudget | undefined;
+	private readonly inFlight = new Map<string, SharedRequest>();
+	private cacheStore: CacheStore | undefined;
+	private readonly debugLogger: Logger = consoleLogger();
+	private readonly warningLogger: Logger = consoleLogger('warn');
+	private readonly redact: <T>(value: T) => T;
+
+	/**
+	 * Authentication helpers for the /token endpoint
+	 *
+	 * @example
+	 * ```typescript
+	 * const { token } = await client.auth.getToken({ email: 'me@example.com' });
+	 * client.setApiToken(token);
+	 * ```
+	 */
+	public readonly auth: Crawl4AIAuth = {
+		getToken: (request, config) => this.getToken(request, config),
+	};
+
+	/**
+	 * Model Context Protocol client over /mcp/sse and /mcp/schema, sharing this
+	 * client's base URL, auth headers and timeouts
+	 *
+	 * @example
+	 * ```typescript
+	 * const tools = await client.mcp.listTools();
+	 * const result = await client.mcp.callTool('html', { url: 'https://example.com' });
+	 * ```
+	 */
+	public readonly mcp: McpClient = new McpClient({
+		request: (endpoint, options) => this.request(endpoint, options),
+		baseUrl: () => this.config.baseUrl,
+		timeout: () => this.config.timeout,
+	});
+
+	/**
+	 * Circuit breaker guarding every API call, when `circuitBreaker` is configured.
+	 * Probes call `/health` on the client's server, or on each pool node in turn until one
+	 * answers; `health()` itself always bypasses the breaker.
+	 *
+	 * @example
+	 * ```typescript
+	 * client.circuitBreaker?.onStateChange(({ from, to, error }) => {
+	 *   console.warn(`Crawl4AI circuit ${from} -> ${to}`, error?.message);
+	 * });
+	 * ```
+	 */
+	public readonly circuitBreaker: CircuitBreaker | undefined;
+
+	/**
+	 * Server pool used for API calls, when `pool` is configured. Each attempt goes to
+	 * the node picked by the pool strategy; retryable failures fail over to another node.
+	 *
+	 * @example
+	 * ```typescript
+	 * await client.pool?.checkHealth();
+	 * console.table(client.pool?.status());
+	 * ```
+	 */
+	public readonly pool: EndpointPool | undefined;
+
+	/**
+	 * Client-side rate limiter, when `rateLimit` is configured. Every API call attempt
+	 * waits for a slot; X-RateLimit headers on responses tighten it further.
+	 *
+	 * @example
+	 * ```typescript
+	 * const { queueLength, waitTime, remaining } = client.rateLimiter?.status() ?? {};
+	 * ```
+	 */
+	public readonly rateLimiter: RateLimiter | undefined;
+
+	/**
+	 * What this client sees per endpoint, when `clientMetrics` is configured: call latency
+	 * including backoff, response statuses, error classes, retries and bytes
+	 *
+	 * @example
+	 * ```typescript
+	 * const { calls, errors, latency } = client.clientMetrics?.snapshot()['/crawl'] ?? {};
+	 * const text = client.clientMetrics?.toPrometheus();
+	 * ```
+	 */
+	public readonly clientMetrics: ClientMetrics | undefined;
 
 	/**
 	 * Create a new Crawl4AI client instance
@@ -82,24 +257,37 @@ export class Crawl4AI {
 	 * @param config.timeout - Request timeout in milliseconds (default: 300000)
 	 * @param config.retries - Number of retry attempts (default: 3)
 	 * @param config.retryDelay - Delay between retries in milliseconds (default: 1000)
+	 * @param config.deadline - Whole-operation deadline across retries in milliseconds
 	 * @param config.debug - Enable debug logging (default: false)
+	 * @param config.logger - Leveled logger for request, retry and cache events
+	 * @param config.redact - Extra secrets to mask in logs and error details
+	 * @param config.tracer - OpenTelemetry-compatible tracer; opens a span per API call
+	 * @param config.clientMetrics - Collect per-endpoint latency, status, error and byte metrics
+	 * @param config.validateResponses - Check response shapes: throw ParseError or warn
 	 * @param config.throwOnError - Throw on HTTP errors (default: true)
+	 * @param config.auth - Obtain a token via /token on first use and refresh it on 401
+	 * @param config.fetch - Custom fetch implementation (undici, proxies, test doubles)
+	 * @param config.transport - Custom transport for non-fetch environments
+	 * @param config.middleware - Ordered request/response interceptors
+	 * @param config.retryPolicy - Backoff, jitter, retry classification and retry budget
+	 * @param config.circuitBreaker - Fail fast while the server keeps failing
+	 * @param config.pool - Several servers with per-node tokens, weights and failover
+	 * @param config.rateLimit - Queue requests client-side instead of triggering 429s
+	 * @param config.coalesce - Share in-flight requests between identical calls
+	 * @param config.cache - Client-side cache for crawl, markdown, html and executeJs results
 	 */
 	constructor(config: Crawl4AIConfig) {
-		// Validate required config
-		if (!config.baseUrl) {
+		// Validate required config; a pool supplies the default base URL
+		const baseUrl = config.baseUrl ?? config.pool?.endpoints?.[0]?.baseUrl;
+		if (!baseUrl) {
 			throw new RequestValidationError('baseUrl is required in configuration', 'baseUrl');
 		}
 
 		// Validate baseUrl format
 		try {
-			new URL(config.baseUrl);
+			new URL(baseUrl);
 		} catch {
-			throw new RequestValidationError(
-				`Invalid baseUrl: ${config.baseUrl}`,
-				'baseUrl',
-				config.baseUrl,
-			);
+			throw new RequestValidationError(`Invalid baseUrl: ${baseUrl}`, 'baseUrl', baseUrl);
 		}
 
 		// Define defaults
@@ -112,6 +300,9 @@ export class Crawl4AI {
 			throwOnError: true,
 			validateStatus: (status: number) => status < CLIENT_ERROR_MIN,
 			debug: false,
+			middleware: [] as Middleware[],
+			retryPolicy: {} as RetryPolicy,
+			coalesce: false,
 		};
 
 		// Validate numeric config values
@@ -148,17 +339,81 @@ export class Crawl4AI {
 			);
 		}
 
+		if (config.fetch && config.transport) {
+			throw new RequestValidationError(
+				'Provide either fetch or transport, not both',
+				'transport',
+			);
+		}
+
+		this.transport = config.transport ?? fetchTransport(config.fetch);
+
+		if (
+			config.deadline !== undefined &&
+			(config.deadline <= 0 || !Number.isFinite(config.deadline))
+		) {
+			throw new RequestValidationError(
+				'deadline must be a positive number',
+				'deadline',
+				config.deadline,
+			);
+		}
+
+		if (config.retryPolicy) {
+			validateRetryPolicy(config.retryPolicy);
+			if (config.retryPolicy.budget) {
+				this.retryBudget = new RetryBudget(config.retryPolicy.budget);
+			}
+		}
+
+		if (config.circuitBreaker) {
+			this.circuitBreaker = new CircuitBreaker(config.circuitBreaker, () =>
+				this.probeServer(),
+			);
+		}
+
+		if (config.pool) {
+			this.pool = new EndpointPool(config.pool, (node) =>
+				this.testConnection({ baseUrl: node.baseUrl, headers: this.nodeHeaders(node) }),
+			);
+		}
+
+		if (config.cache) {
+			const ttl = config.cache.ttl;
+			if (ttl !== undefined && (ttl < 0 || !Number.isFinite(ttl))) {
+				throw new RequestValidationError(
+					'cache.ttl must be a non-negative number',
+					'cache.ttl',
+					ttl,
+				);
+			}
+			this.cacheStore = config.cache.store ?? new MemoryCacheStore();
+		}
+
+		if (config.rateLimit) {
+			this.rateLimiter = new RateLimiter(config.rateLimit);
+		}
+
+		if (config.clientMetrics) {
+			this.clientMetrics = new ClientMetrics(
+				config.clientMetrics === true ? {} : config.clientMetrics,
+			);
+		}
+
+		this.redact = createRedactor(config.redact);
+
 		// Merge config with defaults
 		this.config = {
 			...defaults,
 			...config,
-			baseUrl: config.baseUrl.replace(/\/$/, ''), // Remove trailing slash
+			baseUrl: baseUrl.replace(/\/$/, ''), // Remove trailing slash
 			defaultHeaders: {
 				...defaults.defaultHeaders,
 				...config.defaultHeaders,
 			},
 			throwOnError: config.throwOnError ?? defaults.throwOnError,
 			validateStatus: config.validateStatus || defaults.validateStatus,
+			middleware: [...(config.middleware ?? defaults.middleware)],
 		};
 
 		// Add authorization header if token provided
@@ -181,11 +436,48 @@ export class Crawl4AI {
 	}
 
 	/**
-	 * Log debug information
+	 * Log through the configured logger (or the console in debug mode), with secrets redacted
 	 */
-	private log(message: string, data?: unknown): void {
-		if (this.config.debug) {
-			console.log(`[Crawl4AI] ${message}`, data || '');
+	private log(level: LogLevel, message: string, fields?: LogFields): void {
+		const logger = this.config.logger ?? (this.config.debug ? this.debugLogger : undefined);
+		logger?.[level](message, fields && this.redact(fields));
+	}
+
+	/**
+	 * Check a response against the shape expected from `endpoint` when validation is on
+	 *
+	 * @throws {ParseError} In strict mode, at the first unexpected value
+	 */
+	private checkResponse(
+		endpoint: string,
+		value: unknown,
+		mode: ResponseValidationMode | undefined = this.config.validateResponses,
+	): void {
+		if (!mode) {
+			return;
+		}
+		const issues = validateResponse(endpoint, value);
+		if (issues.length === 0) {
+			return;
+		}
+
+		const excerpt = (JSON.stringify(value) ?? String(value)).slice(0, RESPONSE_EXCERPT_LENGTH);
+		if (mode === 'strict') {
+			const [{ path, message }] = issues as [ResponseIssue];
+			throw new ParseError(
+				`Unexpected ${endpoint} response at ${path}: ${message}`,
+				excerpt,
+				path,
+			);
+		}
+
+		// Lenient mode warns even without a logger, so shape changes do not go unnoticed
+		const logger = this.config.logger ?? this.warningLogger;
+		for (const { path, message } of issues) {
+			logger.warn(
+				`Unexpected ${endpoint} response at ${path}: ${message}`,
+				this.redact({ endpoint, path, excerpt }),
+			);
 		}
 	}
 
@@ -215,6 +507,98 @@ export class Crawl4AI {
 		return [response as T];
 	}
 
+	/**
+	 * Join ask results into a context string, highest score first, within the request budget
+	 */
+	private assembleAskContext(
+		results: AskResult[],
+		budget?: Pick<AskRequest, 'maxContextChars' | 'maxContextTokens'>,
+	): { context: string; truncated: boolean } {
+		const limits = [
+			budget?.maxContextChars,
+			budget?.maxContextTokens !== undefined
+				? budget.maxContextTokens * CHARS_PER_TOKEN
+				: undefined,
+		].filter((limit): limit is number => limit !== undefined);
+		const maxChars = limits.length > 0 ? Math.min(...limits) : Number.POSITIVE_INFINITY;
+
+		const ranked = [...results].sort((a, b) => b.score - a.score);
+		const chunks: string[] = [];
+		let length = 0;
+		let truncated = false;
+
+		for (const { text } of ranked) {
+			const added = chunks.length > 0 ? text.length + CONTEXT_SEPARATOR.length : text.length;
+			if (length + added > maxChars) {
+				// Skip this chunk but keep trying smaller, lower-scoring ones
+				truncated = true;
+				continue;
+			}
+			chunks.push(text);
+			length += added;
+		}
+
+		return { context: chunks.join(CONTEXT_SEPARATOR), truncated };
+	}
+
+	/**
+	 * Stable endpoint name for a request path: query string and path parameters removed
+	 */
+	private endpointName(path: string): string {
+		const name = path.split('?')[0] || '/';
+		if (name.startsWith('/llm/')) {
+			return '/llm';
+		}
+		if (name.startsWith('/mcp/messages')) {
+			return '/mcp/messages';
+		}
+		return name;
+	}
+
+	/**
+	 * Authorization header for a pool node with its own token
+	 */
+	private nodeHeaders(node: PoolNode): Record<string, string> {
+		return node.apiToken ? { Authorization: `Bearer ${node.apiToken}` } : {};
+	}
+
+	/**
+	 * Circuit breaker probe: `/health` on the client's server, or on the nodes the pool picks
+	 * until one answers, so one dead node does not keep the whole client failed
+	 */
+	private async probeServer(): Promise<void> {
+		const pool = this.pool;
+		if (!pool) {
+			await this.health({ timeout: HEALTH_CHECK_TIMEOUT });
+			return;
+		}
+
+		const tried = new Set<PoolNode>();
+		let lastError: Error = new Error('No pool node probed');
+		while (true) {
+			const node = pool.select(tried);
+			if (tried.has(node)) {
+				throw lastError;
+			}
+			tried.add(node);
+			try {
+				await this.directRequest<HealthResponse>('/health', {
+					method: 'GET',
+					timeout: HEALTH_CHECK_TIMEOUT,
+					baseUrl: node.baseUrl,
+					headers: this.nodeHeaders(node),
+				});
+				pool.markUp(node);
+				return;
+			} catch (error) {
+				lastError = error as Error;
+				if (isServerFailure(lastError)) {
+					pool.markDown(node, lastError);
+				}
+			}
+		}
+	}
+
 	/**
 	 * Build query parameters from an object, filtering out undefined values
 	 */
@@ -228,60 +612,320 @@ export class Crawl4AI {
 		return searchParams.toString();
 	}
 
+	/**
+	 * Decode a base64 payload (optionally a data URL) into bytes
+	 */
+	private decodeBase64(value: string): Uint8Array {
+		const binary = atob(value.replace(/^data:[^;,]*;base64,/, ''));
+		return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+	}
+
+	/**
+	 * Turn a /screenshot or /pdf response into decoded bytes or a server-side path,
+	 * writing the bytes to `localPath` when requested
+	 */
+	private async toBinaryResponse(
+		response: string | BinaryApiResponse,
+		field: 'screenshot' | 'pdf',
+		mimeType: string,
+		localPath?: string,
+	): Promise<BinaryResponse | ServerFileResponse> {
+		if (typeof response === 'object' && response !== null && response.path) {
+			return { path: response.path, mimeType };
+		}
+
+		const encoded = typeof response === 'string' ? response : response?.[field];
+		if (typeof encoded !== 'string' || encoded.length === 0) {
+			throw new ParseError(
+				`Response from /${field} did not include ${field} data`,
+				typeof response === 'string' ? response : JSON.stringify(response),
+			);
+		}
+
+		let data: Uint8Array;
+		try {
+			data = this.decodeBase64(encoded);
+		} catch {
+			throw new ParseError(`Invalid base64 ${field} data in response`, encoded.slice(0, 200));
+		}
+
+		if (localPath) {
+			const { writeFile } = await import('node:fs/promises');
+			await writeFile(localPath, data);
+			this.log('debug', `Wrote ${data.byteLength} bytes to ${localPath}`);
+			return { data, mimeType, localPath };
+		}
+
+		return { data, mimeType };
+	}
+
+	/**
+	 * Parse a streamed response body into JSON objects, one per NDJSON line or SSE `data:` line
+	 */
+	private async *readJsonStream<T>(
+		response: TransportResponse,
+		idleTimeout: number,
+		url: string,
+	): AsyncGenerator<T> {
+		if (!response.body) {
+			return;
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = '';
+
+		const parseLine = (rawLine: string): T | undefined => {
+			let line = rawLine.trim();
+			// Skip blank lines, SSE comments and SSE fields other than data
+			if (!line || line.startsWith(':') || /^(event|id|retry):/.test(line)) {
+				return undefined;
+			}
+			if (line.startsWith('data:')) {
+				line = line.slice('data:'.length).trim();
+			}
+			if (!line || line === '[DONE]') {
+				return undefined;
+			}
+			try {
+				return JSON.parse(line) as T;
+			} catch (error) {
+				throw new ParseError(
+					`Failed to parse stream line: ${(error as Error).message}`,
+					line,
+				);
+			}
+		};
+
+		try {
+			while (true) {
+				const { done, value } = await this.readChunk(reader, idleTimeout, url);
+				if (done) {
+					break;
+				}
+				buffer += decoder.decode(value, { stream: true });
+
+				let newlineIndex = buffer.indexOf('\n');
+				while (newlineIndex !== -1) {
+					const item = parseLine(buffer.slice(0, newlineIndex));
+					buffer = buffer.slice(newlineIndex + 1);
+					if (item !== undefined) {
+						yield item;
+					}
+					newlineIndex = buffer.indexOf('\n');
+				}
+			}
+
+			const item = parseLine(buffer + decoder.decode());
+			if (item !== undefined) {
+				yield item;
+			}
+		} finally {
+			// Release the connection if the consumer stopped early or parsing failed
+			await reader.cancel().catch(() => {});
+		}
+	}
+
+	/**
+	 * Read the next chunk of a stream, failing with TimeoutError when the server sends
+	 * nothing for `idleTimeout` ms
+	 */
+	private async readChunk(
+		reader: ReadableStreamDefaultReader<Uint8Array>,
+		idleTimeout: number,
+		url: string,
+	): ReturnType<ReadableStreamDefaultReader<Uint8Array>['read']> {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const stalled = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => reject(new TimeoutError(idleTimeout, url)), idleTimeout);
+		});
+		try {
+			return await Promise.race([reader.read(), stalled]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
 	// ===== Core HTTP Methods =====
 
+	/**
+	 * Run one attempt through the middleware chain: `onRequest` hooks in order, then the
+	 * transport, then `onResponse` (or `onError`) hooks in reverse order
+	 */
 	private async request<T>(
 		endpoint: string,
-		options: RequestInit & RequestConfig = {},
+		options: RequestOptions = {},
+		attempt = 1,
+		span?: Span,
 	): Promise<T> {
-		const url = `${this.config.baseUrl}${endpoint}`;
-		const { timeout = this.config.timeout, signal, headers, ...fetchOptions } = options;
+		const {
+			timeout = this.config.timeout,
+			signal,
+			headers,
+			rawResponse,
+			method = 'GET',
+			body,
+		} = options;
+
+		const parent = span && traceparent(span);
+		let request: MiddlewareRequest = {
+			endpoint: this.endpointName(endpoint),
+			attempt,
+			url: `${options.baseUrl ?? this.config.baseUrl}${endpoint}`,
+			method,
+			headers: {
+				...this.config.defaultHeaders,
+				...(parent && { traceparent: parent }),
+				...headers,
+			},
+			...(body !== undefined && { body }),
+		};
 
-		this.log(`Request: ${fetchOptions.method || 'GET'} ${url}`, fetchOptions.body);
+		const middleware = this.config.middleware;
+		let entered = 0;
 
-		const requestHeaders = {
-			...this.config.defaultHeaders,
-			...headers,
-		};
+		try {
+			let response: MiddlewareResponse | undefined;
+			for (const hooks of middleware) {
+				entered++;
+				const result = await hooks.onRequest?.(request);
+				if (result && 'respond' in result) {
+					this.log('debug', `Request to ${request.endpoint} answered by middleware`);
+					response = { status: 200, headers: {}, data: result.respond };
+					break;
+				}
+				if (result) {
+					request = result;
+				}
+			}
 
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), timeout);
+			response ??= await this.send(request, timeout, signal, rawResponse);
+
+			for (const hooks of middleware.slice(0, entered).reverse()) {
+				response = (await hooks.onResponse?.(response, request)) || response;
+			}
 
-		// Use provided signal or create our own
-		const requestSignal = signal || controller.signal;
+			span?.setAttribute('http.response.status_code', response.status);
+			options.onStatus?.(response.status);
+			return response.data as T;
+		} catch (error) {
+			let failure = error as Error;
+			for (const hooks of middleware.slice(0, entered).reverse()) {
+				const result = await hooks.onError?.(failure, request);
+				if (result instanceof Error) {
+					failure = result;
+				} else if (result && 'respond' in result) {
+					return result.respond as T;
+				}
+			}
+			throw failure;
+		}
+	}
+
+	/**
+	 * Send a prepared request through the transport and parse the response
+	 */
+	private async send(
+		request: MiddlewareRequest,
+		timeout: number,
+		signal?: AbortSignal,
+		rawResponse?: boolean,
+	): Promise<MiddlewareResponse> {
+		const { url, method, headers: requestHeaders, body } = request;
+
+		this.log('debug', `Request: ${method} ${url}`, { headers: requestHeaders, body });
+		if (this.clientMetrics && body !== undefined) {
+			this.clientMetrics.recordSent(
+				request.endpoint,
+				new TextEncoder().encode(body).byteLength,
+			);
+		}
+
+		if (signal?.aborted) {
+			throw new AbortedError(url, signal.reason);
+		}
+
+		// Abort on either the caller's signal or our timeout, remembering which fired
+		const controller = new AbortController();
+		let timedOut = false;
+		const timeoutId = setTimeout(() => {
+			timedOut = true;
+			controller.abort();
+		}, timeout);
+		const forwardAbort = () => controller.abort();
+		signal?.addEventListener('abort', forwardAbort, { once: true });
+		// Streams keep forwarding the caller's signal so it can cancel mid-body
+		let keepForwarding = false;
 
 		try {
-			const response = await fetch(url, {
-				...fetchOptions,
+			const response = await this.transport({
+				url,
+				method,
 				headers: requestHeaders,
-				signal: requestSignal,
+				...(body !== undefined && { body }),
+				signal: controller.signal,
+			}).catch((error: unknown) => {
+				// Runtimes word connection failures differently (fetch's TypeError, Bun's
+				// ECONNREFUSED, socket errors): whatever the transport throws means no response
+				if (controller.signal.aborted || error instanceof Crawl4AIError) {
+					throw error;
+				}
+				const cause = error instanceof Error ? error : new Error(String(error));
+				throw new NetworkError(`Network request failed: ${cause.message}`, cause);
 			});
 
 			clearTimeout(timeoutId);
 
+			// Convert headers to plain object
+			const headers: Record<string, string> = {};
+			response.headers.forEach((value, key) => {
+				headers[key] = value;
+			});
+			this.rateLimiter?.observe(response.status, headers);
+
+			if (rawResponse && this.config.validateStatus(response.status)) {
+				this.log('debug', `Response: ${response.status} (streaming)`, { url });
+				this.clientMetrics?.recordResponse(request.endpoint, response.status);
+				keepForwarding = true;
+				return { status: response.status, headers, data: response };
+			}
+
 			const contentType = response.headers.get('content-type') || '';
 			let responseData: unknown;
 
-			if (contentType.includes('application/json')) {
-				responseData = await response.json();
-			} else if (contentType.includes('text/html') || contentType.includes('text/plain')) {
-				responseData = await response.text();
-			} else if (contentType.includes('text/event-stream')) {
+			if (contentType.includes('text/event-stream')) {
 				// For SSE endpoints, return the response object
-				return response as unknown as T;
+				this.clientMetrics?.recordResponse(request.endpoint, response.status);
+				keepForwarding = true;
+				return { status: response.status, headers, data: response };
+			}
+
+			if (contentType.includes('application/json')) {
+				const text = await response.text();
+				try {
+					responseData = JSON.parse(text);
+				} catch (error) {
+					// An error status keeps its body as text; a success must be valid JSON
+					if (this.config.validateStatus(response.status)) {
+						throw new ParseError(
+							`Invalid JSON in response from ${url}: ${(error as Error).message}`,
+							text,
+						);
+					}
+					responseData = text;
+				}
 			} else {
 				responseData = await response.text();
 			}
+			this.clientMetrics?.recordResponse(
+				request.endpoint,
+				response.status,
+				this.responseSize(headers, responseData),
+			);
 
-			this.log(`Response: ${response.status}`, responseData);
+			this.log('debug', `Response: ${response.status}`, { url, data: responseData });
 
 			if (!this.config.validateStatus(response.status)) {
-				// Convert headers to plain object
-				const headers: Record<string, string> = {};
-				response.headers.forEach((value, key) => {
-					headers[key] = value;
-				});
-
 				const error = createHttpError(
 					response.status,
 					response.statusText,
@@ -290,82 +934,578 @@ export class Crawl4AI {
 					headers,
 				);
 
-				// Add request details to error
-				error.request = {
-					url,
-					method: fetchOptions.method || 'GET',
-					headers: requestHeaders,
-					body: fetchOptions.body,
-				};
+				// Add request details to error
+				// Request details outlive the call (logs, error reports), so secrets are masked
+				error.request = this.redact({
+					url,
+					method,
+					headers: requestHeaders,
+					body,
+				});
+
+				// A stream has no way to hand back an error body, so streaming always throws
+				if (this.config.throwOnError || rawResponse) {
+					throw error;
+				}
+			}
+
+			return { status: response.status, headers, data: responseData };
+		} catch (error) {
+			clearTimeout(timeoutId);
+
+			if (controller.signal.aborted && !(error instanceof Crawl4AIError)) {
+				if (timedOut) {
+					throw new TimeoutError(timeout, url);
+				}
+				throw new AbortedError(url, signal?.reason);
+			}
+
+			throw error;
+		} finally {
+			if (!keepForwarding) {
+				signal?.removeEventListener('abort', forwardAbort);
+			}
+		}
+	}
+
+	/**
+	 * Response body size for metrics: Content-Length when sent, otherwise the size of the
+	 * decoded body (re-serialized for JSON)
+	 */
+	private responseSize(headers: Record<string, string>, data: unknown): number {
+		const length = parseInt(headers['content-length'] ?? '', 10);
+		if (!Number.isNaN(length)) {
+			return length;
+		}
+		const text = typeof data === 'string' ? data : (JSON.stringify(data) ?? '');
+		return new TextEncoder().encode(text).byteLength;
+	}
+
+	/**
+	 * Wait before the next retry; rejects with AbortedError if the caller cancels
+	 */
+	private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(new AbortedError(undefined, signal.reason));
+				return;
+			}
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new AbortedError(undefined, signal?.reason));
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve();
+			}, ms);
+			signal?.addEventListener('abort', onAbort, { once: true });
+		});
+	}
+
+	/**
+	 * Fetch a fresh token unless another caller already replaced `staleToken`.
+	 * Concurrent callers share a single in-flight /token request.
+	 */
+	private async refreshToken(staleToken: string): Promise<void> {
+		const auth = this.config.auth;
+		if (!auth || this.config.apiToken !== staleToken) {
+			return;
+		}
+
+		if (!this.tokenRefresh) {
+			this.log('debug', 'Requesting API token');
+			this.tokenRefresh = this.getToken({ email: auth.email })
+				.then(({ token }) => this.setApiToken(token))
+				.finally(() => {
+					this.tokenRefresh = undefined;
+				});
+		}
+
+		return this.tokenRefresh;
+	}
+
+	private async requestWithRetry<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+		return this.tracedRequest(endpoint, options, (span) =>
+			this.cachedRequest<T>(endpoint, options, span),
+		);
+	}
+
+	/**
+	 * Run one public API call inside its span and client metrics, validating the response
+	 */
+	private async tracedRequest<T>(
+		endpoint: string,
+		options: RequestOptions,
+		send: (span: Span | undefined) => Promise<T>,
+	): Promise<T> {
+		const call = this.startCall(endpoint, options);
+
+		try {
+			const result = await send(call.span);
+			if (!options.rawResponse) {
+				this.checkResponse(this.endpointName(endpoint), result, options.validateResponses);
+			}
+			call.finish();
+			return result;
+		} catch (error) {
+			call.finish(error as Error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Open the span and start the clock for one public API call; `finish` records the
+	 * outcome on both
+	 */
+	private startCall(
+		endpoint: string,
+		options: RequestOptions,
+	): { span: Span | undefined; finish(error?: Error): void } {
+		const name = this.endpointName(endpoint);
+		const tracer = this.config.tracer;
+		const span =
+			tracer &&
+			startRequestSpan(
+				tracer,
+				name,
+				options.method ?? 'GET',
+				`${this.config.baseUrl}${endpoint}`,
+				options.body,
+			);
+		const startedAt = Date.now();
+
+		return {
+			span,
+			finish: (error) => {
+				if (span && error) {
+					recordSpanError(span, error);
+				}
+				span?.end();
+				this.clientMetrics?.recordCall(name, Date.now() - startedAt, error);
+			},
+		};
+	}
+
+	/**
+	 * A traced single attempt, bypassing retries, the rate limiter, the circuit breaker and
+	 * the pool (health probes must reach the server even while the breaker is open)
+	 */
+	private async directRequest<T>(endpoint: string, options: RequestOptions): Promise<T> {
+		return this.tracedRequest(endpoint, options, (span) =>
+			this.request<T>(endpoint, options, 1, span),
+		);
+	}
+
+	/**
+	 * Serve from the client cache when enabled for the endpoint, storing fresh results
+	 */
+	private async cachedRequest<T>(
+		endpoint: string,
+		options: RequestOptions,
+		span?: Span,
+	): Promise<T> {
+		const store = this.cacheStore;
+		const mode: CacheMode = options.clientCache ?? this.config.cache?.mode ?? 'enabled';
+		if (!store || options.rawResponse || !CACHED_ENDPOINTS.has(this.endpointName(endpoint))) {
+			return this.coalescedRequest<T>(endpoint, options, span);
+		}
+
+		const key = `${this.config.baseUrl} ${requestKey(options.method ?? 'GET', endpoint, options.body, options.headers)}`;
+
+		if (cacheReads(mode)) {
+			const entry = await store.get(key).catch((error: unknown) => {
+				this.log('warn', 'Cache read failed', { endpoint, error });
+				return undefined;
+			});
+			if (entry && !isExpired(entry)) {
+				this.log('debug', `Cache hit for ${endpoint}`);
+				span?.setAttribute('crawl4ai.cache_hit', true);
+				return entry.value as T;
+			}
+			// Custom stores may hand back expired entries; do not let them pile up
+			if (entry) {
+				await store
+					.delete(key)
+					.catch((error: unknown) =>
+						this.log('warn', 'Cache delete failed', { endpoint, error }),
+					);
+			}
+		}
+
+		let status: number | undefined;
+		const value = await this.coalescedRequest<T>(
+			endpoint,
+			{
+				...options,
+				onStatus: (received) => {
+					status = received;
+					options.onStatus?.(received);
+				},
+			},
+			span,
+		);
+
+		// Never replay error bodies (throwOnError: false) or responses that fail validation
+		const validation = options.validateResponses ?? this.config.validateResponses;
+		if (
+			cacheWrites(mode) &&
+			status !== undefined &&
+			this.config.validateStatus(status) &&
+			!(validation && validateResponse(this.endpointName(endpoint), value).length > 0) &&
+			isCacheable(value)
+		) {
+			const ttl = this.config.cache?.ttl ?? DEFAULT_CACHE_TTL;
+			await store
+				.set(key, { value, ...(ttl > 0 && { expiresAt: Date.now() + ttl }) })
+				.catch((error: unknown) =>
+					this.log('warn', 'Cache write failed', { endpoint, error }),
+				);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Share one in-flight request between identical calls when coalescing is enabled
+	 */
+	private async coalescedRequest<T>(
+		endpoint: string,
+		options: RequestOptions,
+		span?: Span,
+	): Promise<T> {
+		const coalesce = options.coalesce ?? this.config.coalesce;
+		if (
+			!coalesce ||
+			options.rawResponse ||
+			!COALESCED_ENDPOINTS.has(this.endpointName(endpoint))
+		) {
+			return this.authorizedRequest<T>(endpoint, options, span);
+		}
+
+		// Only calls that would send and retry the same way share a request
+		const { timeout, deadline, retryPolicy, idempotent } = options;
+		const key = `${requestKey(options.method ?? 'GET', endpoint, options.body, options.headers)} ${stableStringify({ timeout, deadline, retryPolicy, idempotent })}`;
+		let shared = this.inFlight.get(key);
+		let leaderSpan: ReturnType<typeof detachableSpan> | undefined;
+		if (shared) {
+			this.log('debug', `Joining in-flight request to ${endpoint}`);
+			span?.setAttribute('crawl4ai.coalesced', true);
+		} else {
+			// The shared request outlives any single caller, so it never sees a caller's signal,
+			// and stops reporting to the first caller's span once that call settles;
+			// its status is kept for every caller
+			const { signal: _signal, onStatus: _onStatus, ...sharedOptions } = options;
+			leaderSpan = span && detachableSpan(span);
+			const entry: SharedRequest = {
+				promise: this.authorizedRequest<T>(
+					endpoint,
+					{
+						...sharedOptions,
+						onStatus: (status) => {
+							entry.status = status;
+						},
+					},
+					leaderSpan?.span,
+				).finally(() => {
+					this.inFlight.delete(key);
+				}),
+			};
+			this.inFlight.set(key, entry);
+			shared = entry;
+		}
+
+		const { promise } = shared;
+		try {
+			const result = await this.abortable(
+				promise as Promise<T>,
+				options.signal,
+				`${this.config.baseUrl}${endpoint}`,
+			);
+			if (shared.status !== undefined) {
+				options.onStatus?.(shared.status);
+			}
+			return result;
+		} finally {
+			leaderSpan?.detach();
+		}
+	}
+
+	/**
+	 * Settle with `promise`, or reject with AbortedError as soon as `signal` aborts
+	 * (without cancelling the underlying work)
+	 */
+	private abortable<T>(
+		promise: Promise<T>,
+		signal: AbortSignal | undefined,
+		url: string,
+	): Promise<T> {
+		if (!signal) {
+			return promise;
+		}
+		if (signal.aborted) {
+			return Promise.reject(new AbortedError(url, signal.reason));
+		}
+
+		return new Promise<T>((resolve, reject) => {
+			const onAbort = () => reject(new AbortedError(url, signal.reason));
+			signal.addEventListener('abort', onAbort, { once: true });
+			promise.then(resolve, reject).finally(() => {
+				signal.removeEventListener('abort', onAbort);
+			});
+		});
+	}
+
+	/**
+	 * Send with retries, acquiring the API token first and refreshing it once on 401
+	 */
+	private async authorizedRequest<T>(
+		endpoint: string,
+		options: RequestOptions,
+		span?: Span,
+	): Promise<T> {
+		const deadline = options.deadline ?? this.config.deadline;
+		const deadlineAt = deadline !== undefined ? Date.now() + deadline : undefined;
+
+		if (!this.config.auth) {
+			return this.retryRequest<T>(endpoint, options, deadlineAt, span);
+		}
+
+		// Token mode: acquire on first use, then refresh once and replay on 401
+		if (!this.config.apiToken) {
+			await this.refreshToken('');
+		}
+
+		const tokenUsed = this.config.apiToken;
+		try {
+			return await this.retryRequest<T>(endpoint, options, deadlineAt, span);
+		} catch (error) {
+			if (!(error instanceof AuthError && error.status === 401)) {
+				throw error;
+			}
+			this.log('info', 'Received 401, refreshing token and replaying request', { endpoint });
+			span?.addEvent('token_refresh');
+			await this.refreshToken(tokenUsed);
+			return this.retryRequest<T>(endpoint, options, deadlineAt, span);
+		}
+	}
+
+	private async retryRequest<T>(
+		endpoint: string,
+		options: RequestOptions,
+		deadlineAt?: number,
+		span?: Span,
+	): Promise<T> {
+		let lastError: Error = new Error('No attempts made');
+		const url = `${this.config.baseUrl}${endpoint}`;
+		const deadline = options.deadline ?? this.config.deadline ?? 0;
+		const timeout = options.timeout ?? this.config.timeout;
+
+		if (options.retryPolicy) {
+			validateRetryPolicy(options.retryPolicy);
+		}
+		const policy: RetryPolicy = { ...this.config.retryPolicy, ...options.retryPolicy };
+		const retries = policy.retries ?? this.config.retries;
+		const baseDelay = policy.baseDelay ?? this.config.retryDelay;
+		const failedNodes = new Set<PoolNode>();
+
+		for (let attempt = 0; attempt <= retries; attempt++) {
+			if (deadlineAt !== undefined && deadlineAt <= Date.now()) {
+				throw new DeadlineExceededError(deadline, url, lastError);
+			}
 
-				if (this.config.throwOnError) {
+			if (this.rateLimiter) {
+				const { waitTime } = this.rateLimiter.status();
+				if (waitTime > 0) {
+					this.log('debug', `Rate limiter: waiting ${waitTime}ms before ${endpoint}`);
+				}
+				const budget = deadlineAt !== undefined ? deadlineAt - Date.now() : undefined;
+				try {
+					await this.rateLimiter.acquire(options.signal, budget);
+				} catch (error) {
+					// The limiter only knows the remaining budget; report the caller's deadline
+					if (error instanceof DeadlineExceededError) {
+						throw new DeadlineExceededError(deadline, url, lastError);
+					}
 					throw error;
 				}
 			}
 
-			return responseData as T;
-		} catch (error) {
-			clearTimeout(timeoutId);
-
-			if (error instanceof Error && error.name === 'AbortError') {
-				throw new TimeoutError(timeout, url);
+			// Shrink the attempt timeout so it never outlives the overall deadline
+			let attemptOptions = options;
+			if (deadlineAt !== undefined) {
+				const remaining = deadlineAt - Date.now();
+				if (remaining <= 0) {
+					throw new DeadlineExceededError(deadline, url, lastError);
+				}
+				attemptOptions = { ...options, timeout: Math.min(timeout, remaining) };
 			}
 
-			// Network errors
-			if (error instanceof TypeError && error.message.includes('fetch')) {
-				throw new NetworkError(`Network request failed: ${error.message}`, error);
-			}
+			await this.circuitBreaker?.acquire();
 
-			throw error;
-		}
-	}
+			const node = this.pool?.select(failedNodes);
+			if (node) {
+				attemptOptions = {
+					...attemptOptions,
+					baseUrl: node.baseUrl,
+					headers: { ...this.nodeHeaders(node), ...attemptOptions.headers },
+				};
+				node.inFlight++;
+			}
 
-	private async requestWithRetry<T>(
-		endpoint: string,
-		options: RequestInit & RequestConfig = {},
-	): Promise<T> {
-		let lastError: Error = new Error('No attempts made');
+			span?.setAttribute('crawl4ai.attempts', attempt + 1);
+			if (node) {
+				span?.setAttribute('server.address', node.baseUrl);
+			}
 
-		for (let attempt = 0; attempt <= this.config.retries; attempt++) {
 			try {
-				return await this.request<T>(endpoint, options);
+				const result = await this.request<T>(
+					endpoint,
+					attemptOptions,
+					attempt + 1,
+					span,
+				).finally(() => {
+					if (node) {
+						node.inFlight--;
+					}
+				});
+				this.circuitBreaker?.recordSuccess();
+				return result;
 			} catch (error) {
 				lastError = error as Error;
+				this.circuitBreaker?.recordFailure(lastError);
+
+				if (node && this.pool && isRetryableError(lastError, policy)) {
+					failedNodes.add(node);
+					if (isServerFailure(lastError)) {
+						this.pool.markDown(node, lastError);
+					}
+				}
 
-				// Don't retry on client errors (4xx) except 429
 				if (
-					error instanceof Crawl4AIError &&
-					error.status &&
-					error.status >= CLIENT_ERROR_MIN &&
-					error.status < CLIENT_ERROR_MAX &&
-					error.status !== RATE_LIMIT_STATUS
+					deadlineAt !== undefined &&
+					error instanceof TimeoutError &&
+					Date.now() >= deadlineAt
 				) {
+					throw new DeadlineExceededError(deadline, url, error);
+				}
+
+				if (attempt >= retries) {
 					throw error;
 				}
 
-				if (attempt < this.config.retries) {
-					let delay = this.config.retryDelay * RETRY_BACKOFF_MULTIPLIER ** attempt;
+				// Failing over to another node needs no backoff; otherwise a server-provided
+				// Retry-After wins over the computed backoff
+				const failover =
+					node !== undefined &&
+					failedNodes.has(node) &&
+					(this.pool?.hasAlternative(failedNodes) ?? false);
+				const retryAfter = error instanceof RateLimitError ? error.retryAfter : undefined;
+				let delay = retryAfter
+					? retryAfter * 1000
+					: computeBackoff(policy, attempt, baseDelay);
+				if (failover) {
+					delay = 0;
+				}
 
-					// Special handling for rate limit errors
-					if (error instanceof RateLimitError && error.retryAfter) {
-						delay = error.retryAfter * 1000; // Convert seconds to milliseconds
-						this.log(
-							`Rate limited. Waiting ${error.retryAfter}s before retry (attempt ${attempt + 1}/${this.config.retries})`,
-						);
-					} else {
-						this.log(
-							`Retry attempt ${attempt + 1}/${this.config.retries} after ${delay}ms`,
-						);
-					}
+				if (
+					!(await this.canRetry(lastError, policy, {
+						endpoint,
+						attempt: attempt + 1,
+						delay,
+						idempotent: options.idempotent,
+					}))
+				) {
+					throw error;
+				}
+
+				// No point sleeping past the deadline
+				if (deadlineAt !== undefined && Date.now() + delay >= deadlineAt) {
+					throw new DeadlineExceededError(deadline, url, lastError);
+				}
+
+				if (this.retryBudget && !this.retryBudget.tryAcquire()) {
+					this.log('warn', 'Retry budget exhausted', { endpoint, error });
+					throw error;
+				}
 
-					await new Promise((resolve) => setTimeout(resolve, delay));
+				if (failover) {
+					this.log(
+						'info',
+						`Failing over to another server (attempt ${attempt + 1}/${retries})`,
+						{
+							endpoint,
+							error,
+						},
+					);
+				} else if (retryAfter) {
+					this.log(
+						'info',
+						`Rate limited. Waiting ${retryAfter}s before retry (attempt ${attempt + 1}/${retries})`,
+						{ endpoint },
+					);
+				} else {
+					this.log('info', `Retry attempt ${attempt + 1}/${retries} after ${delay}ms`, {
+						endpoint,
+						error,
+					});
 				}
+
+				span?.addEvent('retry', {
+					'crawl4ai.attempt': attempt + 1,
+					'crawl4ai.retry_delay_ms': delay,
+					'crawl4ai.failover': failover,
+					'error.type': lastError.name,
+					'http.response.status_code': (lastError as Crawl4AIError).status,
+				});
+				this.clientMetrics?.recordRetry(this.endpointName(endpoint), delay);
+				await this.sleep(delay, options.signal);
 			}
 		}
 
 		throw lastError;
 	}
 
+	/**
+	 * Decide whether a failed attempt may be retried: error classification, endpoint
+	 * idempotency and the policy's veto callback
+	 */
+	private async canRetry(
+		error: Error,
+		policy: RetryPolicy,
+		context: {
+			endpoint: string;
+			attempt: number;
+			delay: number;
+			idempotent?: boolean | undefined;
+		},
+	): Promise<boolean> {
+		if (!isRetryableError(error, policy)) {
+			return false;
+		}
+
+		// A network failure leaves it unknown whether the server ran the request
+		const endpoint = this.endpointName(context.endpoint);
+		const idempotent = context.idempotent ?? isIdempotentEndpoint(endpoint);
+		if (!idempotent && error instanceof NetworkError && !policy.retryNonIdempotent) {
+			this.log('info', `Not replaying non-idempotent ${endpoint} after a network failure`);
+			return false;
+		}
+
+		if (
+			policy.shouldRetry &&
+			!(await policy.shouldRetry({
+				error,
+				attempt: context.attempt,
+				endpoint,
+				delay: context.delay,
+			}))
+		) {
+			return false;
+		}
+
+		return true;
+	}
+
 	// ===== API Methods =====
 
 	/**
@@ -416,6 +1556,127 @@ export class Crawl4AI {
 		return this.normalizeArrayResponse<CrawlResult>(response);
 	}
 
+	/**
+	 * Batch crawl - Split many URLs into chunks crawled with bounded concurrency
+	 *
+	 * Failed chunks are retried, then crawled URL by URL, so one bad batch does not lose
+	 * every result. Every URL ends up in exactly one section of the report.
+	 *
+	 * @param urls - URLs to crawl (duplicates are crawled once)
+	 * @param options - Shared crawl configuration plus chunking, retry and progress settings
+	 * @param config - Optional request configuration applied to every chunk request
+	 * @returns Report of successful results, `success: false` results and errors, keyed by URL
+	 *
+	 * @example
+	 * ```typescript
+	 * const report = await client.crawlMany(urls, {
+	 *   crawler_config: { cache_mode: 'bypass' },
+	 *   chunkSize: 25,
+	 *   concurrency: 4,
+	 *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`)
+	 * });
+	 * console.log(Object.keys(report.errors));
+	 * ```
+	 *
+	 * @throws {RequestValidationError} If chunking options are invalid
+	 * @throws {AbortedError} If `config.signal` aborts
+	 */
+	public async crawlMany(
+		urls: string[],
+		options?: CrawlManyOptions,
+		config?: RequestConfig,
+	): Promise<CrawlManyReport> {
+		return crawlMany(
+			(request, requestConfig) => this.crawl(request, requestConfig),
+			(url) => this.validateUrl(url),
+			urls,
+			options,
+			config,
+		);
+	}
+
+	/**
+	 * Streaming crawl - Yield each result as soon as the server emits it
+	 *
+	 * @param request - Crawl configuration including URLs and options
+	 * @param config - Optional request configuration; `signal` cancels the stream mid-flight,
+	 * and `timeout` also limits how long the stream may go without sending data
+	 * @returns Async iterable of crawl results in completion order
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const result of client.crawlStream({ urls: manyUrls })) {
+	 *   console.log(result.url, result.success);
+	 * }
+	 * ```
+	 *
+	 * @throws {RequestValidationError} If URLs are invalid
+	 * @throws {ParseError} If a streamed line is not valid JSON
+	 * @throws {TimeoutError} If the server stalls for longer than the timeout mid-stream
+	 * @throws {Crawl4AIError} On an HTTP error status, even with `throwOnError: false`
+	 */
+	public async *crawlStream(
+		request: CrawlRequest,
+		config?: RequestConfig,
+	): AsyncGenerator<CrawlResult, void, undefined> {
+		const urls = Array.isArray(request.urls) ? request.urls : [request.urls];
+		for (const url of urls) {
+			this.validateUrl(url);
+		}
+
+		const normalizedRequest = {
+			...request,
+			urls: urls,
+			crawler_config: { ...request.crawler_config, stream: true },
+		};
+
+		interface StreamStatusMessage {
+			status?: string;
+		}
+
+		const options: RequestOptions = {
+			method: 'POST',
+			body: JSON.stringify(normalizedRequest),
+			...config,
+			rawResponse: true,
+		};
+		// The span and metrics cover the whole stream, not just the response headers
+		const call = this.startCall('/crawl/stream', options);
+		const url = `${this.config.baseUrl}/crawl/stream`;
+		let failure: Error | undefined;
+
+		try {
+			const response = await this.cachedRequest<TransportResponse>(
+				'/crawl/stream',
+				options,
+				call.span,
+			);
+
+			// The attempt timeout covers the response headers; it also bounds each silence mid-stream
+			const idleTimeout = config?.timeout ?? this.config.timeout;
+			for await (const item of this.readJsonStream<CrawlResult | StreamStatusMessage>(
+				response,
+				idleTimeout,
+				url,
+			)) {
+				// The server terminates the stream with a bare status marker
+				if (!('url' in item) && (item as StreamStatusMessage).status === 'completed') {
+					return;
+				}
+				this.checkResponse('/crawl/stream', item, config?.validateResponses);
+				yield item as CrawlResult;
+			}
+		} catch (error) {
+			failure =
+				config?.signal?.aborted && !(error instanceof Crawl4AIError)
+					? new AbortedError(url, config.signal.reason)
+					: (error as Error);
+			throw failure;
+		} finally {
+			call.finish(failure);
+		}
+	}
+
 	/**
 	 * Get markdown content from URL with optional filtering
 	 *
@@ -477,6 +1738,118 @@ export class Crawl4AI {
 		return typeof response === 'string' ? response : response.html;
 	}
 
+	/**
+	 * Capture a full-page PNG screenshot
+	 *
+	 * @param request - Screenshot configuration
+	 * @param request.url - URL to capture
+	 * @param request.screenshot_wait_for - Seconds to wait before capture
+	 * @param request.output_path - Save the file on the server and return its server-side path
+	 * @param request.localPath - Write the decoded image to a local file
+	 * @param config - Optional request configuration
+	 * @returns Promise resolving to the decoded image bytes, or the server path when
+	 * `output_path` is set
+	 *
+	 * @example
+	 * ```typescript
+	 * const { data, mimeType } = await client.screenshot({
+	 *   url: 'https://example.com',
+	 *   screenshot_wait_for: 2,
+	 *   localPath: './example.png'
+	 * });
+	 * ```
+	 *
+	 * @throws {ParseError} If the response contains no image data
+	 */
+	public async screenshot(
+		request: ScreenshotRequest & { output_path: string },
+		config?: RequestConfig,
+	): Promise<ServerFileResponse>;
+	public async screenshot(
+		request: ScreenshotRequest & { output_path?: undefined },
+		config?: RequestConfig,
+	): Promise<BinaryResponse>;
+	public async screenshot(
+		request: ScreenshotRequest,
+		config?: RequestConfig,
+	): Promise<BinaryResponse | ServerFileResponse>;
+	public async screenshot(
+		request: ScreenshotRequest,
+		config?: RequestConfig,
+	): Promise<BinaryResponse | ServerFileResponse> {
+		this.validateUrl(request.url);
+		const { localPath, ...apiRequest } = request;
+		if (localPath && apiRequest.output_path) {
+			throw new RequestValidationError(
+				'localPath cannot be combined with output_path',
+				'localPath',
+				localPath,
+			);
+		}
+
+		const response = await this.requestWithRetry<string | BinaryApiResponse>('/screenshot', {
+			method: 'POST',
+			body: JSON.stringify(apiRequest),
+			...config,
+		});
+
+		return this.toBinaryResponse(response, 'screenshot', SCREENSHOT_MIME_TYPE, localPath);
+	}
+
+	/**
+	 * Generate a PDF document of a page
+	 *
+	 * @param request - PDF configuration
+	 * @param request.url - URL to render
+	 * @param request.output_path - Save the file on the server and return its server-side path
+	 * @param request.localPath - Write the decoded PDF to a local file
+	 * @param config - Optional request configuration
+	 * @returns Promise resolving to the decoded PDF bytes, or the server path when
+	 * `output_path` is set
+	 *
+	 * @example
+	 * ```typescript
+	 * const { data } = await client.pdf({ url: 'https://example.com' });
+	 * console.log('PDF size:', data.byteLength);
+	 * ```
+	 *
+	 * @throws {ParseError} If the response contains no PDF data
+	 */
+	public async pdf(
+		request: PdfRequest & { output_path: string },
+		config?: RequestConfig,
+	): Promise<ServerFileResponse>;
+	public async pdf(
+		request: PdfRequest & { output_path?: undefined },
+		config?: RequestConfig,
+	): Promise<BinaryResponse>;
+	public async pdf(
+		request: PdfRequest,
+		config?: RequestConfig,
+	): Promise<BinaryResponse | ServerFileResponse>;
+	public async pdf(
+		request: PdfRequest,
+		config?: RequestConfig,
+	): Promise<BinaryResponse | ServerFileResponse> {
+		this.validateUrl(request.url);
+		const { localPath, ...apiRequest } = request;
+		if (localPath && apiRequest.output_path) {
+			throw new RequestValidationError(
+				'localPath cannot be combined with output_path',
+				'localPath',
+				localPath,
+			);
+		}
+
+		const response = await this.requestWithRetry<string | BinaryApiResponse>('/pdf', {
+			method: 'POST',
+			body: JSON.stringify(apiRequest),
+			...config,
+		});
+
+		return this.toBinaryResponse(response, 'pdf', PDF_MIME_TYPE, localPath);
+	}
+
 	/**
 	 * Execute JavaScript on webpage and return results
 	 *
@@ -512,9 +1885,35 @@ export class Crawl4AI {
 
 	/**
 	 * Get Crawl4AI library context for AI assistants
-	 * @param params Query parameters
+	 *
+	 * @param params - Query parameters and an optional client-side context budget
+	 * @param params.context_type - 'code' | 'doc' | 'all'
+	 * @param params.maxContextChars - Maximum characters in the assembled context
+	 * @param params.maxContextTokens - Maximum estimated tokens in the assembled context
+	 * @param config - Optional request configuration
+	 * @returns Promise resolving to the assembled context plus scored doc and code results
+	 *
+	 * @example
+	 * ```typescript
+	 * const { context, code_results } = await client.ask({
+	 *   query: 'extraction strategies',
+	 *   context_type: 'all',
+	 *   maxContextTokens: 2000
+	 * });
+	 * ```
 	 */
 	public async ask(params?: AskRequest, config?: RequestConfig): Promise<AskResponse> {
+		for (const field of ['maxContextChars', 'maxContextTokens'] as const) {
+			const limit = params?.[field];
+			if (limit !== undefined && (limit < 0 || !Number.isFinite(limit))) {
+				throw new RequestValidationError(
+					`${field} must be a non-negative number`,
+					field,
+					limit,
+				);
+			}
+		}
+
 		const queryString = this.buildQueryParams({
 			context_type: params?.context_type,
 			query: params?.query,
@@ -527,6 +1926,7 @@ export class Crawl4AI {
 		interface AskApiResult {
 			text: string;
 			score: number;
+			[key: string]: unknown;
 		}
 
 		interface AskApiResponse {
@@ -540,13 +1940,40 @@ export class Crawl4AI {
 			...config,
 		});
 
-		// Get results array based on what the API returns
-		const results = response.doc_results || response.code_results || response.all_results || [];
+		const toResult = (
+			{ text, score, type, ...metadata }: AskApiResult,
+			fallbackType: AskResult['type'],
+		): AskResult => {
+			const result: AskResult = {
+				text,
+				score,
+				type: type === 'code' || type === 'doc' ? type : fallbackType,
+			};
+			if (Object.keys(metadata).length > 0) {
+				result.metadata = metadata;
+			}
+			return result;
+		};
+
+		const docResults = (response.doc_results || []).map((r) => toResult(r, 'doc'));
+		const codeResults = (response.code_results || []).map((r) => toResult(r, 'code'));
+		for (const item of response.all_results || []) {
+			const result = toResult(item, 'doc');
+			(result.type === 'code' ? codeResults : docResults).push(result);
+		}
+
+		const { context, truncated } = this.assembleAskContext(
+			[...docResults, ...codeResults],
+			params,
+		);
 
 		const result: AskResponse = {
-			context: results.map((r) => r.text).join('\n\n'),
+			context,
 			type: (params?.context_type || 'doc') as ContextType,
-			results_count: results.length,
+			results_count: docResults.length + codeResults.length,
+			doc_results: docResults,
+			code_results: codeResults,
+			truncated,
 		};
 
 		if (params?.query !== undefined) {
@@ -594,43 +2021,116 @@ export class Crawl4AI {
 	}
 
 	/**
-	 * Get API health status
+	 * Request an authentication token - exposed as `client.auth.getToken()`
 	 */
-	public async health(config?: RequestConfig): Promise<HealthResponse> {
-		return this.request<HealthResponse>('/health', {
-			method: 'GET',
+	private async getToken(request: TokenRequest, config?: RequestConfig): Promise<TokenResponse> {
+		if (!request.email) {
+			throw new RequestValidationError('email is required', 'email', request.email);
+		}
+
+		interface TokenApiResponse {
+			access_token?: string;
+			token?: string;
+			email?: string;
+			token_type?: string;
+		}
+
+		const response = await this.request<TokenApiResponse>('/token', {
+			method: 'POST',
+			body: JSON.stringify(request),
+			...config,
+		});
+
+		const token = response?.access_token ?? response?.token;
+		if (!token) {
+			throw new ParseError(
+				'Token response did not include a token',
+				JSON.stringify(response),
+			);
+		}
+
+		const result: TokenResponse = { token };
+		if (response.email !== undefined) {
+			result.email = response.email;
+		}
+		if (response.token_type !== undefined) {
+			result.token_type = response.token_type;
+		}
+		return result;
+	}
+
+	/**
+	 * Evaluate a Python config expression on the server and return its serialized form
+	 *
+	 * @param code - Python expression, e.g. `CrawlerRunConfig(cache_mode=CacheMode.BYPASS)`
+	 * @param config - Optional request configuration
+	 * @returns Promise resolving to the serialized `{ type, params }` config
+	 *
+	 * @example
+	 * ```typescript
+	 * const dumped = await client.configDump(
+	 *   crawlerRunConfigToPython({ cache_mode: 'bypass', stream: true })
+	 * );
+	 * ```
+	 */
+	public async configDump(code: string, config?: RequestConfig): Promise<ConfigDumpResponse> {
+		if (!code.trim()) {
+			throw new RequestValidationError('code is required', 'code', code);
+		}
+
+		const request: ConfigDumpRequest = { code };
+		return this.requestWithRetry<ConfigDumpResponse>('/config/dump', {
+			method: 'POST',
+			body: JSON.stringify(request),
 			...config,
 		});
 	}
 
+	/**
+	 * Get API health status
+	 */
+	public async health(config?: RequestConfig): Promise<HealthResponse> {
+		return this.directRequest<HealthResponse>('/health', { method: 'GET', ...config });
+	}
+
 	/**
 	 * Get Prometheus metrics
 	 */
 	public async metrics(config?: RequestConfig): Promise<string> {
-		return this.request<string>('/metrics', {
-			method: 'GET',
-			...config,
-		});
+		return this.directRequest<string>('/metrics', { method: 'GET', ...config });
+	}
+
+	/**
+	 * Get Prometheus metrics parsed into typed metric families
+	 *
+	 * @param config - Optional request configuration
+	 * @returns Promise resolving to metric families with samples, histogram buckets and summaries
+	 *
+	 * @example
+	 * ```typescript
+	 * const families = await client.metricsParsed();
+	 * const latency = findHistogram(families, 'http_request_duration_seconds', { method: 'POST' });
+	 * ```
+	 *
+	 * @throws {ParseError} If the response is not valid Prometheus exposition text
+	 */
+	public async metricsParsed(config?: RequestConfig): Promise<MetricFamily[]> {
+		const text = await this.metrics(config);
+		return parsePrometheusText(typeof text === 'string' ? text : String(text));
 	}
 
 	/**
 	 * Get API schema
 	 */
 	public async schema(config?: RequestConfig): Promise<unknown> {
-		return this.request<unknown>('/schema', {
-			method: 'GET',
-			...config,
-		});
+		return this.directRequest<unknown>('/schema', { method: 'GET', ...config });
 	}
 
 	/**
 	 * Get root endpoint information
 	 */
 	public async getRoot(config?: RequestConfig): Promise<string> {
-		return this.request<string>('/', {
-			method: 'GET',
-			...config,
-		});
+		return this.directRequest<string>('/', { method: 'GET', ...config });
 	}
 
 	/**
@@ -638,6 +2138,8 @@ export class Crawl4AI {
 	 *
 	 * @param options - Optional configuration
 	 * @param options.throwOnError - Throw error instead of returning false (default: false)
+	 * @param options.baseUrl - Probe another server (e.g. a pool node) instead of the client's
+	 * @param options.headers - Extra headers for the probe
 	 * @returns Promise resolving to true if connected, false otherwise
 	 *
 	 * @example
@@ -656,9 +2158,18 @@ export class Crawl4AI {
 	 * }
 	 * ```
 	 */
-	public async testConnection(options?: { throwOnError?: boolean }): Promise<boolean> {
+	public async testConnection(options?: {
+		throwOnError?: boolean;
+		baseUrl?: string;
+		headers?: Record<string, string>;
+	}): Promise<boolean> {
 		try {
-			await this.health({ timeout: HEALTH_CHECK_TIMEOUT });
+			await this.request<HealthResponse>('/health', {
+				method: 'GET',
+				timeout: HEALTH_CHECK_TIMEOUT,
+				...(options?.baseUrl !== undefined && { baseUrl: options.baseUrl }),
+				...(options?.headers !== undefined && { headers: options.headers }),
+			});
 			return true;
 		} catch (error) {
 			if (options?.throwOnError) {
@@ -712,11 +2223,42 @@ export class Crawl4AI {
 		}
 	}
 
+	/**
+	 * Append a middleware to the request pipeline
+	 *
+	 * Hooks see the endpoint name and attempt number. `onRequest` hooks run in order and may
+	 * return a modified request or `{ respond: data }` to short-circuit; `onResponse` and
+	 * `onError` hooks run in reverse order and may replace the response or error, or recover
+	 * from an error with `{ respond: data }`.
+	 *
+	 * @example
+	 * ```typescript
+	 * client.use({
+	 *   onRequest: (request) => ({
+	 *     ...request,
+	 *     headers: { ...request.headers, 'X-Correlation-Id': crypto.randomUUID() }
+	 *   })
+	 * });
+	 * ```
+	 */
+	public use(middleware: Middleware): this {
+		this.config.middleware.push(middleware);
+		return this;
+	}
+
 	/**
 	 * Update base URL
 	 */
 	public setBaseUrl(baseUrl: string): void {
 		this.config.baseUrl = baseUrl.replace(/\/$/, '');
+		this.circuitBreaker?.reset();
+	}
+
+	/**
+	 * Remove every entry from the client-side cache
+	 */
+	public async clearCache(): Promise<void> {
+		await this.cacheStore?.clear();
 	}
 
 	/**
@@ -0,0 +1,65 @@
+/**
+ * Shared helpers for the test suites
+ */
+
+import { fileURLToPath } from 'node:url';
+import type { CrawlRequest, ExecuteJsRequest, MarkdownRequest } from './types';
+
+/**
+ * JSON response as the server would send it, with `headers` added to the content type
+ */
+export function jsonResponse(
+	body: unknown,
+	status = 200,
+	headers: Record<string, string> = {},
+): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'content-type': 'application/json', ...headers },
+	});
+}
+
+/** Fixtures recorded from a live server by `bun run fixtures:record` */
+export const FIXTURES_DIR = fileURLToPath(new URL('../fixtures/', import.meta.url));
+
+/**
+ * Calls behind the recorded fixtures. Replay matches on the request body, so changing
+ * one of these means recording again.
+ */
+export const RECORDED_CALLS = {
+	crawl: {
+		single: { urls: 'https://example.com' },
+		multiple: { urls: ['https://example.com', 'https://example.org'] },
+		withOptions: {
+			urls: 'https://example.com',
+			browser_config: { headless: true, viewport: { width: 1280, height: 720 } },
+			crawler_config: {
+				cache_mode: 'bypass',
+				word_count_threshold: 10,
+				extraction_strategy: {
+					type: 'json_css',
+					params: {
+						schema: {
+							baseSelector: 'body',
+							fields: [{ name: 'title', selector: 'h1', type: 'text' }],
+						},
+					},
+				},
+			},
+		},
+	} satisfies Record<string, CrawlRequest>,
+	markdown: {
+		defaultFilter: { url: 'https://example.com' },
+		raw: { url: 'https://example.com', filter: 'raw' },
+		fit: { url: 'https://example.com', filter: 'fit' },
+		bm25: { url: 'https://example.com', filter: 'bm25', query: 'example domain' },
+		uncached: { url: 'https://example.com', cache: '0' },
+	} satisfies Record<string, MarkdownRequest>,
+	executeJs: {
+		scripts: {
+			url: 'https://example.com',
+			scripts: ['document.title', 'document.querySelectorAll("a").length'],
+		},
+		empty: { url: 'https://example.com', scripts: [] },
+	} satisfies Record<string, ExecuteJsRequest>,
+};
@@ -0,0 +1,167 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import {
+	AuthError,
+	NetworkError,
+	ParseError,
+	RequestValidationError,
+	ServerError,
+	TimeoutError,
+} from './errors';
+import { getMetricValue } from './prometheus';
+import Crawl4AI from './sdk';
+import { FakeCrawl4AIServer } from './testing';
+import type { CrawlResult } from './types';
+
+describe('FakeCrawl4AIServer', () => {
+	const server = new FakeCrawl4AIServer({
+		results: {
+			'https://example.com/': {
+				markdown: '# Example',
+				title: 'Example',
+			} as Partial<CrawlResult>,
+		},
+		askResults: [
+			{ text: 'AsyncWebCrawler usage', type: 'doc' },
+			{ text: 'crawler.arun(url)', type: 'code' },
+		],
+	});
+	let client: Crawl4AI;
+
+	beforeAll(async () => {
+		client = new Crawl4AI({ baseUrl: await server.start(), retries: 2, retryDelay: 1 });
+	});
+
+	afterEach(() => {
+		server.reset();
+	});
+
+	afterAll(async () => {
+		await server.close();
+	});
+
+	test('should serve every endpoint the SDK calls', async () => {
+		expect((await client.health()).status).toBe('ok');
+
+		const [result] = await client.crawl({ urls: ['https://example.com/'] });
+		expect(result).toMatchObject({ url: 'https://example.com/', success: true });
+
+		const streamed: string[] = [];
+		for await (const item of client.crawlStream({
+			urls: ['https://a.com/', 'https://b.com/'],
+		})) {
+			streamed.push(item.url);
+		}
+		expect(streamed).toEqual(['https://a.com/', 'https://b.com/']);
+
+		expect(await client.markdown({ url: 'https://example.com/' })).toBe('# Example');
+		expect(await client.html({ url: 'https://other.com/' })).toContain('https://other.com/');
+		expect((await client.screenshot({ url: 'https://example.com/' })).data[0]).toBe(0x89);
+		expect((await client.pdf({ url: 'https://example.com/' })).mimeType).toBe(
+			'application/pdf',
+		);
+
+		const executed = await client.executeJs({
+			url: 'https://example.com/',
+			scripts: ['1', '2'],
+		});
+		expect(executed.js_execution_result).toEqual({ success: true, results: [null, null] });
+
+		expect(await client.llm('https://example.com/', 'Title?')).toBe(
+			'Answer to "Title?" for https://example.com/',
+		);
+
+		const answer = await client.ask({ query: 'crawler' });
+		expect(answer.results_count).toBe(2);
+
+		const { token } = await client.auth.getToken({ email: 'me@example.com' });
+		expect(token).toBe('fake-token');
+
+		const metrics = await client.metricsParsed();
+		expect(
+			getMetricValue(metrics, 'http_requests_total', {
+				handler: '/md',
+				method: 'POST',
+				status: '200',
+			}),
+		).toBe(1);
+	});
+
+	test('should record received requests', async () => {
+		await client.markdown({ url: 'https://example.com/', filter: 'bm25', query: 'title' });
+
+		expect(server.requests).toEqual([
+			expect.objectContaining({
+				method: 'POST',
+				path: '/md',
+				body: { url: 'https://example.com/', f: 'bm25', q: 'title' },
+			}),
+		]);
+	});
+
+	test('should retry a 429 with retry-after, then succeed', async () => {
+		server.fail('/md', { type: 'rate_limit', retryAfter: 0 });
+
+		expect(await client.markdown({ url: 'https://example.com/' })).toBe('# Example');
+		expect(server.requests).toHaveLength(2);
+	});
+
+	test('should raise ServerError once 5xx faults outlast the retries', async () => {
+		server.fail('/html', { type: 'server_error', status: 503 }, 3);
+
+		await expect(client.html({ url: 'https://example.com/' })).rejects.toThrow(ServerError);
+		expect(server.requests).toHaveLength(3);
+	});
+
+	test('should time out on slow responses', async () => {
+		server.fail('*', { type: 'delay', ms: 200 });
+
+		await expect(
+			client.markdown(
+				{ url: 'https://example.com/' },
+				{ timeout: 50, retryPolicy: { retries: 0 } },
+			),
+		).rejects.toThrow(TimeoutError);
+	});
+
+	test('should surface malformed JSON and dropped connections', async () => {
+		server.fail('/crawl', { type: 'malformed_json' });
+		await expect(client.crawl({ urls: ['https://example.com/'] })).rejects.toBeInstanceOf(
+			ParseError,
+		);
+		// Retrying cannot fix a malformed body
+		expect(server.requests).toHaveLength(1);
+
+		server.fail('/html', { type: 'disconnect' });
+		await expect(
+			client.html({ url: 'https://example.com/' }, { retryPolicy: { retries: 0 } }),
+		).rejects.toThrow(NetworkError);
+	});
+
+	test('should answer 422 for missing fields', async () => {
+		await expect(
+			fetch(`${server.url}/crawl`, { method: 'POST', body: '{}' }).then((r) => r.status),
+		).resolves.toBe(422);
+	});
+
+	test('should require the configured API token', async () => {
+		const secured = new FakeCrawl4AIServer({ apiToken: 'secret' });
+		const baseUrl = await secured.start();
+		try {
+			const anonymous = new Crawl4AI({ baseUrl, retries: 0 });
+			await expect(anonymous.html({ url: 'https://example.com/' })).rejects.toThrow(
+				AuthError,
+			);
+			expect((await anonymous.health()).status).toBe('ok');
+
+			const authorized = new Crawl4AI({ baseUrl, apiToken: 'secret' });
+			expect(await authorized.html({ url: 'https://example.com/' })).toContain('<h1>');
+		} finally {
+			await secured.close();
+		}
+	});
+
+	test('should validate requests before they reach the server', async () => {
+		await expect(client.markdown({ url: 'not a url' })).rejects.toThrow(RequestValidationError);
+		expect(server.requests).toHaveLength(0);
+	});
+});
@@ -0,0 +1,403 @@
+/**
+ * Crawl4AI test kit - an in-process fake server for exercising the SDK without Crawl4AI
+ *
+ * Import from `crawl4ai/testing` (Node.js/Bun only).
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type {
+	AskResult,
+	CrawlResult,
+	FakeFault,
+	FakeServerOptions,
+	FakeServerRequest,
+} from './types';
+
+export type { FakeFault, FakeServerOptions, FakeServerRequest } from './types';
+
+const DEFAULT_TOKEN = 'fake-token';
+const DEFAULT_VERSION = '0.0.0-fake';
+const DEFAULT_RETRY_AFTER = 1;
+const OPEN_ENDPOINTS = new Set(['/health', '/token']);
+// Smallest valid headers, enough for consumers that sniff the file type
+const PNG_BYTES = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PDF_TEXT = '%PDF-1.4\n%%EOF\n';
+
+type Route = (request: FakeServerRequest, url: URL) => unknown;
+
+class HttpFailure extends Error {
+	constructor(
+		public readonly status: number,
+		public readonly detail: unknown,
+	) {
+		super(typeof detail === 'string' ? detail : 'Request failed');
+	}
+}
+
+const missingField = (field: string) =>
+	new HttpFailure(422, [{ loc: ['body', field], msg: 'Field required', type: 'missing' }]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fake Crawl4AI server - answers every SDK endpoint over real HTTP with canned results,
+ * records what it received and serves scripted faults
+ *
+ * @example
+ * ```typescript
+ * import { FakeCrawl4AIServer } from 'crawl4ai/testing';
+ *
+ * const server = new FakeCrawl4AIServer({
+ *   results: { 'https://example.com': { markdown: '# Example' } }
+ * });
+ * const client = new Crawl4AI({ baseUrl: await server.start(), retryDelay: 10 });
+ *
+ * server.fail('/md', { type: 'rate_limit', retryAfter: 0 });
+ * await client.markdown({ url: 'https://example.com' }); // retried, then '# Example'
+ *
+ * await server.close();
+ * ```
+ */
+export class FakeCrawl4AIServer {
+	private server: Server | undefined;
+	private baseUrl: string | undefined;
+	private readonly faults = new Map<string, FakeFault[]>();
+	private readonly received: FakeServerRequest[] = [];
+	private readonly served = new Map<string, number>();
+	private readonly routes: Record<string, Route>;
+
+	constructor(private readonly options: FakeServerOptions = {}) {
+		this.routes = {
+			'GET /health': () => ({
+				status: 'ok',
+				timestamp: Date.now() / 1000,
+				version: this.options.version ?? DEFAULT_VERSION,
+			}),
+			'POST /crawl': ({ body }) => ({
+				success: true,
+				results: this.urlsOf(body).map((url) => this.result(url)),
+			}),
+			'POST /md': ({ body }) => {
+				const { url, f, q, c } = this.bodyWithUrl(body);
+				return {
+					url,
+					filter: f ?? 'fit',
+					query: q ?? null,
+					cache: c ?? '0',
+					markdown: this.result(url).markdown ?? '',
+					success: true,
+				};
+			},
+			'POST /html': ({ body }) => {
+				const { url } = this.bodyWithUrl(body);
+				return { url, html: this.result(url).html, success: true };
+			},
+			'POST /screenshot': ({ body }) => {
+				const { output_path } = this.bodyWithUrl(body);
+				return output_path
+					? { success: true, path: output_path }
+					: { success: true, screenshot: Buffer.from(PNG_BYTES).toString('base64') };
+			},
+			'POST /pdf': ({ body }) => {
+				const { output_path } = this.bodyWithUrl(body);
+				return output_path
+					? { success: true, path: output_path }
+					: { success: true, pdf: Buffer.from(PDF_TEXT).toString('base64') };
+			},
+			'POST /execute_js': ({ body }) => {
+				const { url, scripts } = this.bodyWithUrl(body);
+				const count = Array.isArray(scripts) ? scripts.length : 0;
+				return {
+					js_execution_result: { success: true, results: new Array(count).fill(null) },
+					...this.result(url),
+				};
+			},
+			'GET /llm': (_, url) => {
+				const target = decodeURIComponent(url.pathname.slice('/llm/'.length));
+				const query = url.searchParams.get('q') ?? '';
+				return { answer: this.options.llmAnswer ?? `Answer to "${query}" for ${target}` };
+			},
+			'GET /ask': (_, url) => {
+				const type = url.searchParams.get('context_type') ?? 'all';
+				const results = (this.options.askResults ?? []).map(
+					(chunk): AskResult => ({ score: 1, type: 'doc', ...chunk }),
+				);
+				return {
+					...(type !== 'code' && {
+						doc_results: results.filter((chunk) => chunk.type === 'doc'),
+					}),
+					...(type !== 'doc' && {
+						code_results: results.filter((chunk) => chunk.type === 'code'),
+					}),
+				};
+			},
+			'POST /token': ({ body }) => {
+				const { email } = (body ?? {}) as { email?: string };
+				if (!email) {
+					throw missingField('email');
+				}
+				return {
+					email,
+					access_token: this.options.token ?? DEFAULT_TOKEN,
+					token_type: 'bearer',
+				};
+			},
+			'GET /metrics': () => this.metricsText(),
+		};
+	}
+
+	/**
+	 * Start listening on localhost
+	 *
+	 * @returns Base URL to pass to the client, e.g. `http://127.0.0.1:51234`
+	 */
+	public async start(): Promise<string> {
+		if (this.baseUrl) {
+			return this.baseUrl;
+		}
+
+		const server = createServer((request, response) => {
+			void this.handle(request, response);
+		});
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(this.options.port ?? 0, '127.0.0.1', () => resolve());
+		});
+
+		this.server = server;
+		this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		return this.baseUrl;
+	}
+
+	/**
+	 * Stop listening and drop open connections
+	 */
+	public async close(): Promise<void> {
+		const server = this.server;
+		if (!server) {
+			return;
+		}
+		this.server = undefined;
+		this.baseUrl = undefined;
+		server.closeAllConnections();
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	}
+
+	/**
+	 * Base URL of the running server
+	 */
+	public get url(): string {
+		if (!this.baseUrl) {
+			throw new Error('Fake server is not running; call start() first');
+		}
+		return this.baseUrl;
+	}
+
+	/**
+	 * Requests received so far, oldest first
+	 */
+	public get requests(): FakeServerRequest[] {
+		return [...this.received];
+	}
+
+	/**
+	 * Serve `fault` for the next `times` requests to `endpoint` ('/crawl', '/llm', ... or
+	 * '*' for any endpoint). Faults queue up in the order they are added.
+	 */
+	public fail(endpoint: string, fault: FakeFault, times = 1): this {
+		const queue = this.faults.get(endpoint) ?? [];
+		for (let count = 0; count < times; count++) {
+			queue.push(fault);
+		}
+		this.faults.set(endpoint, queue);
+		return this;
+	}
+
+	/**
+	 * Forget received requests and pending faults
+	 */
+	public reset(): void {
+		this.received.length = 0;
+		this.faults.clear();
+		this.served.clear();
+	}
+
+	private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+		const url = new URL(request.url ?? '/', 'http://localhost');
+		const endpoint = url.pathname.startsWith('/llm/') ? '/llm' : url.pathname;
+		const method = request.method ?? 'GET';
+		const received = await this.readRequest(request, method, url);
+		this.received.push(received);
+
+		const fault = this.faults.get(endpoint)?.shift() ?? this.faults.get('*')?.shift();
+		if (fault?.type === 'disconnect') {
+			request.socket.destroy();
+			return;
+		}
+		if (fault?.type === 'delay') {
+			await sleep(fault.ms);
+		}
+		if (response.destroyed) {
+			return;
+		}
+
+		let status = 200;
+		let payload: unknown;
+		let headers: Record<string, string> = {};
+
+		try {
+			if (fault?.type === 'rate_limit') {
+				const retryAfter = String(fault.retryAfter ?? DEFAULT_RETRY_AFTER);
+				headers = { 'retry-after': retryAfter };
+				throw new HttpFailure(429, 'Rate limit exceeded');
+			}
+			if (fault?.type === 'server_error') {
+				throw new HttpFailure(fault.status ?? 500, 'Internal Server Error');
+			}
+			if (fault?.type === 'malformed_json') {
+				this.count(endpoint, method, 200);
+				response.writeHead(200, { 'content-type': 'application/json' });
+				response.end('{"results": [');
+				return;
+			}
+
+			const token = this.options.apiToken;
+			if (
+				token &&
+				!OPEN_ENDPOINTS.has(endpoint) &&
+				received.headers.authorization !== `Bearer ${token}`
+			) {
+				throw new HttpFailure(401, 'Invalid or missing token');
+			}
+
+			if (method === 'POST' && endpoint === '/crawl/stream') {
+				this.stream(received, response);
+				return;
+			}
+
+			const route = this.routes[`${method} ${endpoint}`];
+			if (!route) {
+				throw new HttpFailure(404, 'Not Found');
+			}
+			payload = route(received, url);
+		} catch (error) {
+			status = error instanceof HttpFailure ? error.status : 500;
+			payload = {
+				detail: error instanceof HttpFailure ? error.detail : (error as Error).message,
+			};
+		}
+
+		this.count(endpoint, method, status);
+		const text = typeof payload === 'string';
+		response.writeHead(status, {
+			'content-type': text ? 'text/plain; charset=utf-8' : 'application/json',
+			...headers,
+		});
+		response.end(text ? payload : JSON.stringify(payload));
+	}
+
+	/**
+	 * NDJSON results followed by the server's completion marker
+	 */
+	private stream({ body }: FakeServerRequest, response: ServerResponse): void {
+		const urls = this.urlsOf(body);
+		this.count('/crawl/stream', 'POST', 200);
+		response.writeHead(200, { 'content-type': 'application/x-ndjson' });
+		for (const url of urls) {
+			response.write(`${JSON.stringify(this.result(url))}\n`);
+		}
+		response.end(`${JSON.stringify({ status: 'completed' })}\n`);
+	}
+
+	private async readRequest(
+		request: IncomingMessage,
+		method: string,
+		url: URL,
+	): Promise<FakeServerRequest> {
+		const chunks: Buffer[] = [];
+		for await (const chunk of request) {
+			chunks.push(chunk as Buffer);
+		}
+		const text = Buffer.concat(chunks).toString('utf8');
+
+		const headers: Record<string, string> = {};
+		for (const [name, value] of Object.entries(request.headers)) {
+			if (value !== undefined) {
+				headers[name] = Array.isArray(value) ? value.join(', ') : value;
+			}
+		}
+
+		const received: FakeServerRequest = {
+			method,
+			path: `${url.pathname}${url.search}`,
+			headers,
+		};
+		if (text) {
+			try {
+				received.body = JSON.parse(text);
+			} catch {
+				received.body = text;
+			}
+		}
+		return received;
+	}
+
+	private result(url: string): CrawlResult {
+		return {
+			url,
+			html: `<html><body><h1>${url}</h1></body></html>`,
+			success: true,
+			status_code: 200,
+			markdown: `# ${url}`,
+			...this.options.results?.[url],
+		};
+	}
+
+	private urlsOf(body: unknown): string[] {
+		const { urls } = (body ?? {}) as { urls?: unknown };
+		if (typeof urls === 'string') {
+			return [urls];
+		}
+		if (!Array.isArray(urls) || urls.length === 0) {
+			throw missingField('urls');
+		}
+		return urls as string[];
+	}
+
+	private bodyWithUrl(body: unknown): Record<string, unknown> & { url: string } {
+		const fields = (body ?? {}) as Record<string, unknown>;
+		if (typeof fields.url !== 'string') {
+			throw missingField('url');
+		}
+		return fields as Record<string, unknown> & { url: string };
+	}
+
+	private count(endpoint: string, method: string, status: number): void {
+		const key = `${endpoint} ${method} ${status}`;
+		this.served.set(key, (this.served.get(key) ?? 0) + 1);
+	}
+
+	private metricsText(): string {
+		const lines = [
+			'# HELP http_requests_total Requests served by the fake server',
+			'# TYPE http_requests_total counter',
+		];
+		for (const [key, count] of this.served) {
+			const [handler, method, status] = key.split(' ');
+			lines.push(
+				`http_requests_total{handler="${handler}",method="${method}",status="${status}"} ${count}`,
+			);
+		}
+		return `${lines.join('\n')}\n`;
+	}
+}
+
+/**
+ * Create and start a fake server in one step
+ */
+export async function startFakeServer(options?: FakeServerOptions): Promise<FakeCrawl4AIServer> {
+	const server = new FakeCrawl4AIServer(options);
+	await server.start();
+	return server;
+}
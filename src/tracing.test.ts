@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import { ServerError } from './errors';
+import { detachableSpan, recordSpanError, startRequestSpan, traceparent } from './tracing';
+import type { Span, SpanAttributes, SpanContext, SpanOptions, SpanStatus } from './types';
+
+class RecordingSpan implements Span {
+	attributes: SpanAttributes = {};
+	status: SpanStatus | undefined;
+	exceptions: Error[] = [];
+
+	constructor(
+		public name: string,
+		public options?: SpanOptions,
+		private readonly context?: SpanContext,
+	) {
+		Object.assign(this.attributes, options?.attributes);
+	}
+
+	setAttribute(key: string, value: SpanAttributes[string]) {
+		this.attributes[key] = value;
+	}
+	addEvent() {}
+	setStatus(status: SpanStatus) {
+		this.status = status;
+	}
+	recordException(exception: Error) {
+		this.exceptions.push(exception);
+	}
+	spanContext(): SpanContext {
+		return this.context ?? { traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 };
+	}
+	end() {}
+}
+
+describe('tracing', () => {
+	test('should name spans after the public method and count URLs', () => {
+		let started: RecordingSpan | undefined;
+		const tracer = {
+			startSpan: (name: string, options?: SpanOptions) => {
+				started = new RecordingSpan(name, options);
+				return started;
+			},
+		};
+
+		startRequestSpan(
+			tracer,
+			'/md',
+			'POST',
+			'http://localhost:11235/md',
+			JSON.stringify({ url: 'https://example.com' }),
+		);
+
+		expect(started?.name).toBe('crawl4ai.markdown');
+		expect(started?.options?.kind).toBe(2);
+		expect(started?.attributes).toEqual({
+			'crawl4ai.endpoint': '/md',
+			'http.request.method': 'POST',
+			'url.full': 'http://localhost:11235/md',
+			'crawl4ai.url_count': 1,
+		});
+
+		startRequestSpan(
+			tracer,
+			'/crawl',
+			'POST',
+			'http://localhost:11235/crawl',
+			JSON.stringify({ urls: ['https://a.com', 'https://b.com'] }),
+		);
+		expect(started?.attributes['crawl4ai.url_count']).toBe(2);
+	});
+
+	test('should record the error class, status and exception', () => {
+		const span = new RecordingSpan('crawl4ai.crawl');
+		const error = new ServerError('HTTP 503', 503);
+
+		recordSpanError(span, error);
+
+		expect(span.attributes['error.type']).toBe('ServerError');
+		expect(span.attributes['http.response.status_code']).toBe(503);
+		expect(span.exceptions).toEqual([error]);
+		expect(span.status).toEqual({ code: 2, message: 'HTTP 503' });
+	});
+
+	test('should format a W3C traceparent header', () => {
+		const span = new RecordingSpan('crawl4ai.crawl', undefined, {
+			traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+			spanId: '00f067aa0ba902b7',
+			traceFlags: 1,
+		});
+
+		expect(traceparent(span)).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+	});
+
+	test('should skip invalid or missing trace contexts', () => {
+		expect(traceparent(new RecordingSpan('crawl4ai.crawl'))).toBeUndefined();
+		expect(
+			traceparent({
+				setAttribute() {},
+				addEvent() {},
+				setStatus() {},
+				end() {},
+			}),
+		).toBeUndefined();
+	});
+
+	test('should stop forwarding to a detached span', () => {
+		const span = new RecordingSpan('crawl4ai.html', undefined, {
+			traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+			spanId: '00f067aa0ba902b7',
+			traceFlags: 1,
+		});
+		const detachable = detachableSpan(span);
+
+		detachable.span.setAttribute('crawl4ai.attempts', 1);
+		detachable.detach();
+		detachable.span.setAttribute('crawl4ai.attempts', 2);
+		recordSpanError(detachable.span, new ServerError('Bad gateway', 502));
+
+		expect(span.attributes).toEqual({ 'crawl4ai.attempts': 1 });
+		expect(span.status).toBeUndefined();
+		expect(span.exceptions).toEqual([]);
+		expect(traceparent(detachable.span)).toBe(
+			'00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+		);
+	});
+});
@@ -0,0 +1,122 @@
+/**
+ * Tracing helpers: span naming and attributes for API calls, W3C trace context propagation
+ */
+
+import type { Span, SpanAttributes, Tracer } from './types';
+
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+const TRACEPARENT_VERSION = '00';
+const INVALID_TRACE_ID = /^0+$/;
+
+// Public method behind each endpoint, used as the span name
+const ENDPOINT_OPERATIONS: Record<string, string> = {
+	'/crawl': 'crawl',
+	'/crawl/stream': 'crawlStream',
+	'/md': 'markdown',
+	'/html': 'html',
+	'/screenshot': 'screenshot',
+	'/pdf': 'pdf',
+	'/execute_js': 'executeJs',
+	'/llm': 'llm',
+	'/ask': 'ask',
+	'/config/dump': 'configDump',
+	'/health': 'health',
+	'/metrics': 'metrics',
+	'/schema': 'schema',
+	'/': 'getRoot',
+};
+
+/**
+ * Number of target URLs in a JSON request body (`urls` or `url`), if any
+ */
+function urlCount(body: string | undefined): number | undefined {
+	if (body === undefined) {
+		return undefined;
+	}
+	try {
+		const { urls, url } = JSON.parse(body) as { urls?: unknown; url?: unknown };
+		if (Array.isArray(urls)) {
+			return urls.length;
+		}
+		return typeof urls === 'string' || typeof url === 'string' ? 1 : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Open the span for one API call, named after the public method (`crawl4ai.markdown`)
+ */
+export function startRequestSpan(
+	tracer: Tracer,
+	endpoint: string,
+	method: string,
+	url: string,
+	body?: string,
+): Span {
+	const operation = ENDPOINT_OPERATIONS[endpoint] ?? endpoint;
+	const attributes: SpanAttributes = {
+		'crawl4ai.endpoint': endpoint,
+		'http.request.method': method,
+		'url.full': url,
+	};
+	const count = urlCount(body);
+	if (count !== undefined) {
+		attributes['crawl4ai.url_count'] = count;
+	}
+	return tracer.startSpan(`crawl4ai.${operation}`, { kind: SPAN_KIND_CLIENT, attributes });
+}
+
+/**
+ * Mark a span as failed with the error's class and HTTP status
+ */
+export function recordSpanError(span: Span, error: Error): void {
+	span.setAttribute('error.type', error.name);
+	const status = (error as { status?: unknown }).status;
+	if (typeof status === 'number') {
+		span.setAttribute('http.response.status_code', status);
+	}
+	span.recordException?.(error);
+	span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+}
+
+/**
+ * Wrap a span so calls stop reaching it once detached, for work that can
+ * outlive the call that owns the span
+ */
+export function detachableSpan(span: Span): { span: Span; detach(): void } {
+	let attached = true;
+	const wrapper: Span = {
+		setAttribute: (key, value) => attached && span.setAttribute(key, value),
+		addEvent: (name, attributes) => attached && span.addEvent(name, attributes),
+		setStatus: (status) => attached && span.setStatus(status),
+		recordException: (exception) => attached && span.recordException?.(exception),
+		end: () => {},
+		...(span.spanContext && { spanContext: span.spanContext.bind(span) }),
+	};
+	return {
+		span: wrapper,
+		detach: () => {
+			attached = false;
+		},
+	};
+}
+
+/**
+ * W3C `traceparent` header value for a span, when it carries a valid trace context
+ */
+export function traceparent(span: Span): string | undefined {
+	const context = span.spanContext?.();
+	if (
+		!context ||
+		!/^[0-9a-f]{32}$/.test(context.traceId) ||
+		!/^[0-9a-f]{16}$/.test(context.spanId) ||
+		INVALID_TRACE_ID.test(context.traceId) ||
+		INVALID_TRACE_ID.test(context.spanId)
+	) {
+		return undefined;
+	}
+	const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+	return `${TRACEPARENT_VERSION}-${context.traceId}-${context.spanId}-${flags}`;
+}
@@ -0,0 +1,40 @@
+/**
+ * HTTP transport abstraction used by the client for every request
+ */
+
+import type { FetchLike, Transport, TransportResponse } from './types';
+
+/**
+ * Create a transport backed by a fetch implementation.
+ * Without one, the global `fetch` is looked up on every call.
+ *
+ * @example Keep-alive agent with undici
+ * ```typescript
+ * import { Agent, fetch as undiciFetch } from 'undici';
+ *
+ * const dispatcher = new Agent({ keepAliveTimeout: 30_000 });
+ * const transport = fetchTransport((url, init) => undiciFetch(url, { ...init, dispatcher }));
+ * ```
+ */
+export function fetchTransport(fetchImpl?: FetchLike): Transport {
+	return ({ url, method, headers, body, signal }) => {
+		const init: RequestInit = { method, headers, signal };
+		if (body !== undefined) {
+			init.body = body;
+		}
+		return (fetchImpl ?? globalThis.fetch)(url, init);
+	};
+}
+
+/**
+ * Type guard for responses returned by a transport
+ */
+export function isTransportResponse(value: unknown): value is TransportResponse {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as TransportResponse).status === 'number' &&
+		typeof (value as TransportResponse).text === 'function' &&
+		typeof (value as TransportResponse).headers?.get === 'function'
+	);
+}
@@ -163,11 +163,15 @@ export interface ScreenshotRequest {
 	url: string;
 	screenshot_wait_for?: number;
 	output_path?: string;
+	/** Write the decoded image to this local path (client-side, not sent to the server) */
+	localPath?: string;
 }
 
 export interface PdfRequest {
 	url: string;
 	output_path?: string;
+	/** Write the decoded PDF to this local path (client-side, not sent to the server) */
+	localPath?: string;
 }
 
 export interface ExecuteJsRequest {
@@ -188,6 +192,10 @@ export interface AskRequest {
 	query?: string;
 	score_ratio?: number;
 	max_results?: number;
+	/** Client-side budget: maximum characters in the assembled `context` */
+	maxContextChars?: number;
+	/** Client-side budget: maximum estimated tokens (~4 characters each) in `context` */
+	maxContextTokens?: number;
 }
 
 // ===== Response Types =====
@@ -281,15 +289,126 @@ export interface HealthResponse {
 	version: string;
 }
 
+export interface BinaryResponse {
+	data: Uint8Array;
+	mimeType: string;
+	localPath?: string;
+}
+
+export interface ServerFileResponse {
+	path: string;
+	mimeType: string;
+}
+
+/** Serialized config as returned by POST /config/dump: `{ type, params }` */
+export type ConfigDumpResponse = Record<string, unknown>;
+
 export interface TokenResponse {
 	token: string;
+	email?: string;
+	token_type?: string;
+}
+
+export interface AskResult {
+	text: string;
+	score: number;
+	type: 'doc' | 'code';
+	/** Any additional fields the server returned for this chunk (source file, title, ...) */
+	metadata?: Record<string, unknown>;
 }
 
 export interface AskResponse {
+	/** Highest-scoring chunks first, joined by blank lines and limited by the request budget */
 	context: string;
 	type: ContextType;
 	query?: string;
 	results_count: number;
+	doc_results: AskResult[];
+	code_results: AskResult[];
+	/** True when the budget left some chunks out of `context` */
+	truncated: boolean;
+}
+
+// ===== Metrics Types =====
+export type MetricType = 'counter' | 'gauge' | 'histogram' | 'summary' | 'untyped';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+	name: string;
+	labels: MetricLabels;
+	value: number;
+	timestamp?: number;
+}
+
+export interface HistogramBucket {
+	le: number;
+	count: number;
+}
+
+export interface HistogramSeries {
+	labels: MetricLabels;
+	buckets: HistogramBucket[];
+	sum?: number;
+	count?: number;
+}
+
+export interface SummaryQuantile {
+	quantile: number;
+	value: number;
+}
+
+export interface SummarySeries {
+	labels: MetricLabels;
+	quantiles: SummaryQuantile[];
+	sum?: number;
+	count?: number;
+}
+
+export interface MetricFamily {
+	name: string;
+	type: MetricType;
+	help?: string;
+	samples: MetricSample[];
+	histograms?: HistogramSeries[];
+	summaries?: SummarySeries[];
+}
+
+// ===== MCP Types =====
+export interface McpTool {
+	name: string;
+	description?: string;
+	inputSchema: Record<string, unknown>;
+}
+
+export interface McpSchemaResponse {
+	tools: McpTool[];
+	resources?: Array<Record<string, unknown>>;
+}
+
+export type McpContent =
+	| { type: 'text'; text: string }
+	| { type: 'image'; data: string; mimeType: string }
+	| { type: 'resource'; resource: Record<string, unknown> };
+
+export interface McpToolResult {
+	content: McpContent[];
+	isError?: boolean;
+}
+
+/** Arguments of the tools a Crawl4AI server exposes over MCP */
+export interface Crawl4AIMcpToolArgs {
+	md: { url: string; f?: ContentFilter; q?: string; c?: string };
+	html: HtmlRequest;
+	screenshot: Omit<ScreenshotRequest, 'localPath'>;
+	pdf: Omit<PdfRequest, 'localPath'>;
+	execute_js: ExecuteJsRequest;
+	crawl: {
+		urls: string[];
+		browser_config?: BrowserConfig;
+		crawler_config?: CrawlerRunConfig;
+	};
+	ask: AskRequest;
 }
 
 // ===== Error Types =====
@@ -301,28 +420,614 @@ export interface ValidationError {
 	}>;
 }
 
+/** One field the server rejected, decoded from a FastAPI `detail` entry */
+export interface ValidationIssue {
+	/** Dotted path into the request body, e.g. `crawler_config.extraction_strategy.params.schema` */
+	path: string;
+	message: string;
+	/** Pydantic error type, e.g. `missing` or `string_type` */
+	type?: string;
+	/** Location as sent by the server, e.g. `['body', 'urls', 0]` */
+	loc: Array<string | number>;
+}
+
+/** Stable, machine-readable error identifier; one per error class */
+export type Crawl4AIErrorCode =
+	| 'E_CRAWL4AI'
+	| 'E_NETWORK'
+	| 'E_TIMEOUT'
+	| 'E_DEADLINE_EXCEEDED'
+	| 'E_ABORTED'
+	| 'E_VALIDATION'
+	| 'E_SERVER_VALIDATION'
+	| 'E_RATE_LIMIT'
+	| 'E_AUTH'
+	| 'E_SERVER'
+	| 'E_NOT_FOUND'
+	| 'E_PARSE'
+	| 'E_MCP'
+	| 'E_CIRCUIT_OPEN'
+	| 'E_FIXTURE_MISS';
+
+/** JSON form of an error, as produced by `toJSON()`; secrets are already redacted */
+export interface SerializedError {
+	name: string;
+	code: Crawl4AIErrorCode;
+	message: string;
+	/** Class-specific fields: `status`, `data`, `request`, `retryAfter`, `issues`, ... */
+	[field: string]: unknown;
+	cause?: unknown;
+	stack?: string;
+}
+
 export interface ApiError extends Error {
 	status?: number;
 	statusText?: string;
 	data?: ValidationError | Record<string, unknown>;
 }
 
+// ===== Transport Types =====
+/** A fetch-compatible function (global fetch, undici, node-fetch, a test double, ...) */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface TransportRequest {
+	url: string;
+	method: HttpMethod;
+	headers: Record<string, string>;
+	body?: string;
+	/** Aborts the request on timeout or cancellation; transports should honour it */
+	signal: AbortSignal;
+}
+
+/** The subset of the fetch `Response` the client relies on */
+export interface TransportResponse {
+	status: number;
+	statusText: string;
+	headers: {
+		get(name: string): string | null;
+		forEach(callback: (value: string, key: string) => void): void;
+	};
+	/** Needed only for streaming endpoints (/crawl/stream, /mcp/sse) */
+	body?: ReadableStream<Uint8Array> | null;
+	/** The client reads every non-streaming body through `text()`, parsing JSON itself */
+	text(): Promise<string>;
+	/** Not used by the client; kept so existing transports still type-check */
+	json?(): Promise<unknown>;
+}
+
+/**
+ * Minimal transport for environments without fetch
+ *
+ * Resolve with any response the server sends, including 4xx/5xx. Reject when no response
+ * arrived (connection refused or reset, DNS failure, TLS error): any such rejection is
+ * treated as a NetworkError, so it is retried, fails over to another pool node and counts
+ * towards the circuit breaker. Rejections after `signal` aborts are reported as a timeout
+ * or cancellation instead.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+// ===== Fixture Types =====
+export interface FixtureRequest {
+	method: HttpMethod;
+	/** Path and query string, without the base URL */
+	endpoint: string;
+	/** Request headers, secrets redacted */
+	headers: Record<string, string>;
+	/** Request body, secrets redacted; JSON bodies are stored parsed */
+	body?: unknown;
+}
+
+export interface FixtureResponse {
+	status: number;
+	statusText: string;
+	headers: Record<string, string>;
+	/** Raw response body text */
+	body: string;
+}
+
+export interface Fixture {
+	request: FixtureRequest;
+	response: FixtureResponse;
+}
+
+export interface FixtureFile {
+	version: 1;
+	fixtures: Fixture[];
+}
+
+export interface FixtureRecorderOptions {
+	/** Transport that reaches the real server (default: global fetch) */
+	transport?: Transport;
+	/** Extra secrets to mask in recorded headers and bodies */
+	redact?: RedactOptions;
+}
+
+export interface ReplayOptions {
+	/**
+	 * Custom match rule; by default method, endpoint and normalized body must be equal
+	 * (headers are ignored)
+	 */
+	match?: (request: FixtureRequest, fixture: Fixture) => boolean;
+	/** Transport for requests without a fixture (default: throw FixtureMissError) */
+	fallback?: Transport;
+	/** Extra secrets masked at recording time, so bodies still match */
+	redact?: RedactOptions;
+}
+
+// ===== Middleware Types =====
+export interface MiddlewareRequest {
+	/** Endpoint name without query string or path parameters, e.g. '/crawl' or '/llm' */
+	endpoint: string;
+	/** 1-based attempt number within the retry loop */
+	attempt: number;
+	url: string;
+	method: HttpMethod;
+	headers: Record<string, string>;
+	body?: string;
+}
+
+export interface MiddlewareResponse {
+	status: number;
+	headers: Record<string, string>;
+	/** Parsed response body as returned by the server */
+	data: unknown;
+}
+
+/** Returned from a hook to answer the request without (or instead of) the server */
+export interface MiddlewareShortCircuit {
+	respond: unknown;
+}
+
+/** A hook returns a replacement, or `undefined` to keep the current value */
+export type MiddlewareHookResult<T> = T | undefined | Promise<T | undefined>;
+
+export interface Middleware {
+	/** Modify the request (mutate it or return a new one), or return `{ respond }` to short-circuit */
+	onRequest?(
+		request: MiddlewareRequest,
+	): MiddlewareHookResult<MiddlewareRequest | MiddlewareShortCircuit>;
+	/** Inspect or replace the response */
+	onResponse?(
+		response: MiddlewareResponse,
+		request: MiddlewareRequest,
+	): MiddlewareHookResult<MiddlewareResponse>;
+	/** Replace the error, or recover with `{ respond }` */
+	onError?(
+		error: Error,
+		request: MiddlewareRequest,
+	): MiddlewareHookResult<Error | MiddlewareShortCircuit>;
+}
+
+// ===== Retry Types =====
+/** Delay in milliseconds before retry number `attempt` (0-based) */
+export type BackoffFunction = (attempt: number, baseDelay: number) => number;
+
+/**
+ * `exponential`: baseDelay * multiplier^attempt;
+ * `full-jitter`: random in [0, exponential);
+ * `equal-jitter`: exponential / 2 plus random in [0, exponential / 2)
+ */
+export type BackoffStrategy = 'exponential' | 'full-jitter' | 'equal-jitter' | BackoffFunction;
+
+export type ErrorClass = abstract new (...args: never[]) => Error;
+
+export interface RetryContext {
+	error: Error;
+	/** Retry number about to be made (1-based) */
+	attempt: number;
+	endpoint: string;
+	/** Backoff the client is about to wait, in milliseconds */
+	delay: number;
+}
+
+export interface RetryBudgetConfig {
+	/** Retries available when the bucket is full */
+	maxRetries: number;
+	/** Retries regained per second */
+	refillPerSecond: number;
+}
+
+export interface RetryPolicy {
+	/** Retry attempts after the first (default: client `retries`) */
+	retries?: number;
+	/** Base backoff delay in milliseconds (default: client `retryDelay`) */
+	baseDelay?: number;
+	/** Exponential growth factor (default: 2) */
+	multiplier?: number;
+	/** Upper bound for any backoff delay; Retry-After is still honoured in full */
+	maxDelay?: number;
+	backoff?: BackoffStrategy;
+	/** Retry errors of these classes (replaces the default classification) */
+	retryOn?: ErrorClass[];
+	/** Retry HTTP errors with these status codes (replaces the default classification) */
+	retryStatuses?: number[];
+	/** Veto a retry the policy would otherwise make */
+	shouldRetry?: (context: RetryContext) => boolean | Promise<boolean>;
+	/** Replay non-idempotent calls (e.g. /execute_js) after a network failure (default: false) */
+	retryNonIdempotent?: boolean;
+	/** Client-wide cap on retries over time; only read from the client configuration */
+	budget?: RetryBudgetConfig;
+}
+
+// ===== Circuit Breaker Types =====
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChange {
+	from: CircuitState;
+	to: CircuitState;
+	at: Date;
+	/** Failure that opened the circuit or failed the probe */
+	error?: Error;
+}
+
+export interface CircuitBreakerConfig {
+	/** Open after this many consecutive failures (default: 5) */
+	failureThreshold?: number;
+	/** Open when the failure rate over the window reaches this ratio, 0-1 (default: disabled) */
+	failureRateThreshold?: number;
+	/** Number of most recent outcomes the failure rate is computed over (default: 20) */
+	windowSize?: number;
+	/** Outcomes required in the window before the failure rate applies (default: 10) */
+	minimumRequests?: number;
+	/** Milliseconds to stay open before probing `health()` (default: 30000) */
+	resetTimeout?: number;
+	/** Which errors count as server failures (default: network errors and 5xx responses) */
+	isFailure?: (error: Error) => boolean;
+	/** Called on every state transition */
+	onStateChange?: (change: CircuitStateChange) => void;
+}
+
+// ===== Endpoint Pool Types =====
+export interface PoolEndpoint {
+	baseUrl: string;
+	/** Token for this server; falls back to the client `apiToken` */
+	apiToken?: string;
+	/** Relative share of traffic (default: 1) */
+	weight?: number;
+}
+
+export type PoolStrategy = 'round-robin' | 'least-in-flight';
+
+export interface PoolConfig {
+	endpoints: PoolEndpoint[];
+	/** Node selection; round-robin honours weights (default: 'round-robin') */
+	strategy?: PoolStrategy;
+	/** Milliseconds before a down node is probed with `testConnection()` again (default: 10000) */
+	recheckInterval?: number;
+}
+
+export interface PoolNodeStatus {
+	baseUrl: string;
+	weight: number;
+	healthy: boolean;
+	inFlight: number;
+	/** When the node was last marked down */
+	downSince?: Date;
+	lastError?: Error;
+}
+
+// ===== Rate Limiter Types =====
+export interface RateLimitConfig {
+	/** Steady request rate sent to the server (default: unlimited, header-driven only) */
+	requestsPerSecond?: number;
+	/** Requests allowed in a burst above the steady rate (default: requestsPerSecond) */
+	burst?: number;
+	/** Follow X-RateLimit-* headers on successful responses and Retry-After on 429 (default: true) */
+	adaptive?: boolean;
+}
+
+export interface RateLimiterStatus {
+	/** Requests waiting for a slot */
+	queueLength: number;
+	/** Milliseconds until the next request may be sent */
+	waitTime: number;
+	/** Total milliseconds requests have spent queued */
+	totalWaitTime: number;
+	/** Last `x-ratelimit-limit` seen */
+	limit?: number;
+	/** Requests left in the server window, counting requests sent since the last response */
+	remaining?: number;
+	/** When the server window resets */
+	resetAt?: Date;
+}
+
+// ===== Client Cache Types =====
+export interface CacheEntry {
+	value: unknown;
+	/** Expiry as epoch milliseconds; entries without it never expire */
+	expiresAt?: number;
+}
+
+/** Storage backend for the client-side response cache */
+export interface CacheStore {
+	/** Built-in stores drop expired entries here; the client deletes any expired entry it gets */
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+	clear(): Promise<void>;
+}
+
+export interface ClientCacheConfig {
+	/** Where entries live (default: in-memory LRU with 500 entries) */
+	store?: CacheStore;
+	/** Time to live in milliseconds; 0 keeps entries until evicted (default: 300000) */
+	ttl?: number;
+	/** Default cache behaviour; override per call with `clientCache` (default: 'enabled') */
+	mode?: CacheMode;
+}
+
+// ===== Batch Crawl Types =====
+export interface CrawlManyProgress {
+	total: number;
+	/** URLs with a final outcome so far */
+	completed: number;
+	succeeded: number;
+	/** URLs whose result came back with `success: false` */
+	failed: number;
+	/** URLs that hit a transport-level error */
+	errored: number;
+}
+
+export interface CrawlManyOptions extends Omit<CrawlRequest, 'urls'> {
+	/** URLs per /crawl request (default: 10) */
+	chunkSize?: number;
+	/** Chunks in flight at once (default: 2) */
+	concurrency?: number;
+	/** Extra attempts for a chunk that failed with a transient error (default: 1) */
+	chunkRetries?: number;
+	/**
+	 * Crawl a chunk's URLs one by one once its retries are exhausted, or once the server
+	 * rejected it as invalid (default: true)
+	 */
+	splitFailedChunks?: boolean;
+	/** Re-crawl URLs that returned `success: false` individually, up to this many times (default: 0) */
+	retryFailedUrls?: number;
+	onProgress?: (progress: CrawlManyProgress) => void;
+}
+
+export interface CrawlManyReport {
+	/** Results with `success: true`, keyed by requested URL */
+	succeeded: Record<string, CrawlResult>;
+	/** Results with `success: false`, keyed by requested URL */
+	failed: Record<string, CrawlResult>;
+	/** Transport-level failures and invalid URLs, keyed by requested URL */
+	errors: Record<string, Error>;
+}
+
+// ===== Logging Types =====
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Structured context attached to a log message; secrets are redacted before logging */
+export type LogFields = Record<string, unknown>;
+
+/** Leveled logger receiving a message and optional structured fields */
+export interface Logger {
+	debug(message: string, fields?: LogFields): void;
+	info(message: string, fields?: LogFields): void;
+	warn(message: string, fields?: LogFields): void;
+	error(message: string, fields?: LogFields): void;
+}
+
+export interface RedactOptions {
+	/** Extra field and header names to mask, on top of the built-in list */
+	keys?: string[];
+	/** Replacement text (default: '[REDACTED]') */
+	replacement?: string;
+}
+
+// ===== Tracing Types =====
+// Structural subset of the OpenTelemetry API: an OTel tracer can be passed as-is
+
+export type SpanAttributeValue = string | number | boolean | string[];
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export interface SpanContext {
+	/** 32 hex characters */
+	traceId: string;
+	/** 16 hex characters */
+	spanId: string;
+	traceFlags: number;
+}
+
+export interface SpanStatus {
+	/** 0 = unset, 1 = ok, 2 = error (OpenTelemetry `SpanStatusCode`) */
+	code: number;
+	message?: string;
+}
+
+export interface Span {
+	setAttribute(key: string, value: SpanAttributeValue): unknown;
+	addEvent(name: string, attributes?: SpanAttributes): unknown;
+	setStatus(status: SpanStatus): unknown;
+	recordException?(exception: Error): unknown;
+	/** Used to send a W3C `traceparent` header to the server */
+	spanContext?(): SpanContext;
+	end(): void;
+}
+
+export interface SpanOptions {
+	/** 2 = client (OpenTelemetry `SpanKind.CLIENT`) */
+	kind?: number;
+	attributes?: SpanAttributes;
+}
+
+export interface Tracer {
+	startSpan(name: string, options?: SpanOptions): Span;
+}
+
+// ===== Client Metrics Types =====
+export interface ClientMetricsConfig {
+	/** Latency histogram bucket bounds in seconds (default: 0.05s to 300s) */
+	buckets?: number[];
+}
+
+export interface EndpointMetrics {
+	/** Calls made, including cache hits and failures */
+	calls: number;
+	/** Call duration in seconds, including retries and backoff; buckets are cumulative */
+	latency: { buckets: HistogramBucket[]; sum: number; count: number };
+	/** Responses per attempt, by HTTP status */
+	statuses: Record<number, number>;
+	/** Failed calls, by error class name */
+	errors: Record<string, number>;
+	retries: number;
+	backoffSeconds: number;
+	bytesSent: number;
+	bytesReceived: number;
+}
+
+/** Client metrics keyed by endpoint (`/crawl`, `/md`, ...) */
+export type ClientMetricsSnapshot = Record<string, EndpointMetrics>;
+
+// ===== Testing Types =====
+/** Scripted failure served by the fake server instead of a normal response */
+export type FakeFault =
+	/** 429 with a Retry-After header in seconds (default: 1) */
+	| { type: 'rate_limit'; retryAfter?: number }
+	/** 5xx (default: 500) with a JSON `detail` body */
+	| { type: 'server_error'; status?: number }
+	/** Hold the response for `ms`, then answer normally */
+	| { type: 'delay'; ms: number }
+	/** 200 with a truncated JSON body */
+	| { type: 'malformed_json' }
+	/** Drop the connection without responding */
+	| { type: 'disconnect' };
+
+export interface FakeServerOptions {
+	/** Port to listen on (default: a random free port) */
+	port?: number;
+	/** Canned results by URL, merged over a generated successful result */
+	results?: Record<string, Partial<CrawlResult>>;
+	/** Answer returned by /llm (default: echoes the query) */
+	llmAnswer?: string;
+	/** Chunks returned by /ask */
+	askResults?: Array<Partial<AskResult> & { text: string }>;
+	/** Token issued by /token (default: 'fake-token') */
+	token?: string;
+	/** Require `Authorization: Bearer <apiToken>` on every endpoint except /health and /token */
+	apiToken?: string;
+	/** Version reported by /health */
+	version?: string;
+}
+
+/** A request received by the fake server */
+export interface FakeServerRequest {
+	method: string;
+	/** Path and query string */
+	path: string;
+	headers: Record<string, string>;
+	/** Parsed JSON body, or the raw text */
+	body?: unknown;
+}
+
+// ===== Response Validation Types =====
+/**
+ * - `strict`: throw ParseError on the first unexpected value
+ * - `lenient`: log a warning per unexpected value and return the response as-is
+ */
+export type ResponseValidationMode = 'strict' | 'lenient';
+
+export interface ResponseIssue {
+	/** Location in the response, e.g. `$.results[0].success` */
+	path: string;
+	/** What was expected and what arrived */
+	message: string;
+}
+
 // ===== SDK Configuration =====
+export interface TokenAuthConfig {
+	/** Email sent to POST /token when the client needs a token */
+	email: string;
+}
+
+export interface Crawl4AIAuth {
+	/** Request a new token from the /token endpoint */
+	getToken(request: TokenRequest, config?: RequestConfig): Promise<TokenResponse>;
+}
+
 export interface Crawl4AIConfig {
-	baseUrl: string;
+	/** Crawl4AI server URL; optional when `pool` is given (defaults to the first pool endpoint) */
+	baseUrl?: string;
 	apiToken?: string;
 	timeout?: number;
 	retries?: number;
 	retryDelay?: number;
+	/** Default whole-operation deadline in milliseconds (default: none) */
+	deadline?: number;
 	defaultHeaders?: Record<string, string>;
+	/**
+	 * Throw on HTTP errors rather than resolving with the error body (default: true).
+	 * Streaming calls always throw.
+	 */
 	throwOnError?: boolean;
 	validateStatus?: (status: number) => boolean;
+	/** Log through a console logger at debug level when no `logger` is given */
 	debug?: boolean;
+	/** Leveled logger for request, retry and cache events (default: none) */
+	logger?: Logger;
+	/** Extra secrets to mask in logs and `Crawl4AIError.request` */
+	redact?: RedactOptions;
+	/** Open a span per API call (e.g. `trace.getTracer('crawl4ai')` from @opentelemetry/api) */
+	tracer?: Tracer;
+	/** Collect per-endpoint latency, status, error, retry and byte metrics (default: disabled) */
+	clientMetrics?: boolean | ClientMetricsConfig;
+	/** Check response shapes at runtime (default: off) */
+	validateResponses?: ResponseValidationMode;
+	/** Obtain a token on first use and refresh it once when a request returns 401 */
+	auth?: TokenAuthConfig;
+	/** Custom fetch implementation used for every request (default: global fetch) */
+	fetch?: FetchLike;
+	/** Custom transport for non-fetch environments; cannot be combined with `fetch` */
+	transport?: Transport;
+	/** Ordered middleware around every request attempt */
+	middleware?: Middleware[];
+	/** Backoff, retry classification and retry budget (default: exponential, no cap) */
+	retryPolicy?: RetryPolicy;
+	/** Fail fast with CircuitOpenError while the server keeps failing (default: disabled) */
+	circuitBreaker?: CircuitBreakerConfig;
+	/** Spread API calls over several servers with health-checked failover */
+	pool?: PoolConfig;
+	/** Client-side token bucket that queues requests instead of triggering 429s */
+	rateLimit?: RateLimitConfig;
+	/** Share one in-flight request between identical /md, /html, /crawl and /llm calls */
+	coalesce?: boolean;
+	/** Client-side cache for crawl, markdown, html and executeJs results (default: disabled) */
+	cache?: ClientCacheConfig;
 }
 
 // ===== Utility Types =====
 export type RequestConfig = {
+	/** Per-attempt timeout in milliseconds */
 	timeout?: number;
+	/** Cancels the request; combined with the timeout rather than replacing it */
 	signal?: AbortSignal;
 	headers?: Record<string, string>;
+	/** Whole-operation budget in milliseconds, across all retry attempts and backoff sleeps */
+	deadline?: number;
+	/** Overrides the client retry policy for this call (the retry budget stays client-wide) */
+	retryPolicy?: Omit<RetryPolicy, 'budget'>;
+	/** Override the endpoint's idempotency setting for replay after network failures */
+	idempotent?: boolean;
+	/** Override the client `coalesce` setting for this call */
+	coalesce?: boolean;
+	/** Client-side cache behaviour for this call; server caching is set by `cache_mode` */
+	clientCache?: CacheMode;
+	/** Override the client `validateResponses` setting for this call */
+	validateResponses?: ResponseValidationMode;
+};
+
+/** Options for a single call through the client's request pipeline */
+export type RequestOptions = RequestConfig & {
+	method?: HttpMethod;
+	body?: string;
+	/**
+	 * Resolve with the raw transport response once the status is validated (streaming);
+	 * an error status always throws
+	 */
+	rawResponse?: boolean;
+	/** Server to send to instead of the client base URL (pool nodes, probes) */
+	baseUrl?: string;
+	/** Receives the HTTP status of the response the call resolves with */
+	onStatus?: (status: number) => void;
 };
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { validateResponse } from './validate';
+
+const result = { url: 'https://example.com', html: '<html></html>', success: true };
+
+describe('validateResponse', () => {
+	test('should accept crawl responses in every supported envelope', () => {
+		expect(validateResponse('/crawl', [result])).toEqual([]);
+		expect(validateResponse('/crawl', { results: [result] })).toEqual([]);
+		expect(validateResponse('/crawl', { result: [result] })).toEqual([]);
+	});
+
+	test('should report the path of each mismatch', () => {
+		expect(
+			validateResponse('/crawl', {
+				results: [result, { ...result, success: 'yes', status_code: '200' }],
+			}),
+		).toEqual([
+			{ path: '$.results[1].success', message: 'expected boolean, received string' },
+			{ path: '$.results[1].status_code', message: 'expected number, received string' },
+		]);
+		expect(validateResponse('/crawl', { data: [] })).toEqual([
+			{ path: '$.results', message: 'expected array, received undefined' },
+		]);
+	});
+
+	test('should treat null optional fields as absent', () => {
+		expect(
+			validateResponse('/execute_js', { ...result, error_message: null, metadata: null }),
+		).toEqual([]);
+	});
+
+	test('should ignore fields the SDK does not read', () => {
+		expect(validateResponse('/crawl/stream', { ...result, extra: { nested: 1 } })).toEqual([]);
+	});
+
+	test('should accept text endpoints as plain text or wrapped', () => {
+		expect(validateResponse('/md', '# Title')).toEqual([]);
+		expect(validateResponse('/md', { markdown: '# Title' })).toEqual([]);
+		expect(validateResponse('/llm', { answer: 42 })).toEqual([
+			{ path: '$.answer', message: 'expected string, received number' },
+		]);
+	});
+
+	test('should check health and ask responses', () => {
+		expect(validateResponse('/health', { status: 'ok', timestamp: 1, version: '0.7' })).toEqual(
+			[],
+		);
+		expect(validateResponse('/health', null)).toEqual([
+			{ path: '$', message: 'expected object, received null' },
+		]);
+		expect(validateResponse('/ask', { doc_results: [{ text: 'a', score: '1' }] })).toEqual([
+			{ path: '$.doc_results[0].score', message: 'expected number, received string' },
+		]);
+	});
+
+	test('should not check endpoints without a known shape', () => {
+		expect(validateResponse('/screenshot', 'anything')).toEqual([]);
+	});
+});
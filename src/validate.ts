@@ -0,0 +1,135 @@
+/**
+ * Runtime checks for server response shapes
+ */
+
+import type { ResponseIssue } from './types';
+
+type Validator = (value: unknown, path: string, issues: ResponseIssue[]) => void;
+
+const ROOT_PATH = '$';
+
+function describe(value: unknown): string {
+	if (value === null) {
+		return 'null';
+	}
+	return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const primitive =
+	(type: 'string' | 'number' | 'boolean'): Validator =>
+	(value, path, issues) => {
+		if (typeof value !== type) {
+			issues.push({ path, message: `expected ${type}, received ${describe(value)}` });
+		}
+	};
+
+const string = primitive('string');
+const number = primitive('number');
+const boolean = primitive('boolean');
+
+const object: Validator = (value, path, issues) => {
+	if (!isObject(value)) {
+		issues.push({ path, message: `expected object, received ${describe(value)}` });
+	}
+};
+
+/** Servers send `null` for absent optional fields */
+const optional =
+	(validator: Validator): Validator =>
+	(value, path, issues) => {
+		if (value !== undefined && value !== null) {
+			validator(value, path, issues);
+		}
+	};
+
+const arrayOf =
+	(item: Validator): Validator =>
+	(value, path, issues) => {
+		if (!Array.isArray(value)) {
+			issues.push({ path, message: `expected array, received ${describe(value)}` });
+			return;
+		}
+		for (const [index, element] of value.entries()) {
+			item(element, `${path}[${index}]`, issues);
+		}
+	};
+
+/** Checks the listed fields; unlisted fields pass through */
+const shape =
+	(fields: Record<string, Validator>): Validator =>
+	(value, path, issues) => {
+		if (!isObject(value)) {
+			issues.push({ path, message: `expected object, received ${describe(value)}` });
+			return;
+		}
+		for (const [field, validator] of Object.entries(fields)) {
+			validator(value[field], `${path}.${field}`, issues);
+		}
+	};
+
+/** Endpoints that answer with plain text or `{ [field]: string }` */
+const textOr =
+	(field: string): Validator =>
+	(value, path, issues) => {
+		if (typeof value !== 'string') {
+			shape({ [field]: string })(value, path, issues);
+		}
+	};
+
+const crawlResult = shape({
+	url: string,
+	html: string,
+	success: boolean,
+	status_code: optional(number),
+	error_message: optional(string),
+	links: optional(object),
+	media: optional(object),
+	metadata: optional(object),
+});
+
+/** Array of results, or `{ results }` / `{ result }` wrapping one */
+const crawlResponse: Validator = (value, path, issues) => {
+	if (Array.isArray(value)) {
+		arrayOf(crawlResult)(value, path, issues);
+		return;
+	}
+	const field = isObject(value) && value.result !== undefined ? 'result' : 'results';
+	shape({ [field]: arrayOf(crawlResult) })(value, path, issues);
+};
+
+const askChunk = shape({ text: string, score: number });
+
+const askResponse = shape({
+	doc_results: optional(arrayOf(askChunk)),
+	code_results: optional(arrayOf(askChunk)),
+	all_results: optional(arrayOf(askChunk)),
+});
+
+const healthResponse = shape({ status: string, timestamp: number, version: string });
+
+const RESPONSE_VALIDATORS: Record<string, Validator> = {
+	'/crawl': crawlResponse,
+	'/crawl/stream': crawlResult,
+	'/execute_js': crawlResult,
+	'/md': textOr('markdown'),
+	'/html': textOr('html'),
+	'/llm': textOr('answer'),
+	'/ask': askResponse,
+	'/health': healthResponse,
+};
+
+/**
+ * Compare a response with the shape the SDK expects from `endpoint`
+ *
+ * @param endpoint - Endpoint name ('/crawl', '/md', ...); '/crawl/stream' checks one streamed result
+ * @returns Every unexpected value found; empty for valid responses and unchecked endpoints
+ */
+export function validateResponse(endpoint: string, value: unknown): ResponseIssue[] {
+	const issues: ResponseIssue[] = [];
+	RESPONSE_VALIDATORS[endpoint]?.(value, ROOT_PATH, issues);
+	return issues;
+}